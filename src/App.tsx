@@ -1,22 +1,31 @@
 import { useCallback, useRef, useState, useEffect } from 'react'
 import { ReactFlowInstance, useEdgesState, useNodesState, type Node } from 'reactflow'
 import './App.css'
-import modules from './modules'
+import { downloadModules, addDynamicModules, resetModules, canReplaceModuleCatalog } from './modules'
 import { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, canOutputNodeBeDeleted } from './nodeConfigs'
 import { useHistory } from './hooks/useHistory'
-import { useValidation } from './hooks/useValidation'
+import { useValidation, type ValidationStatus } from './hooks/useValidation'
+import type { ValidationIssue } from './utils/graphValidation'
 import { repositionOutputNodes } from './utils/branchingNodeHelpers'
 import { removeOutputNodes, getOutputNodesToRemoveForBranchingNodes } from './utils/branchingNodeOperations'
 import { isStartModule } from './utils/moduleHelpers'
 import { exportFlowToJson } from './utils/exportHelpers'
-import { translateReactFlowToCustom, type CustomFlowMetadata } from './utils/translationHelpers'
+import { createEmptyFlowMetadata, translateReactFlowToCustom, type CustomFlowMetadata, type ReactFlowJson } from './utils/translationHelpers'
+import { getAvailableVariables } from './utils/flowVariables'
 
 import Toolbar from './components/Toolbar'
 import FlowCanvas from './components/FlowCanvas'
 import Minimap from './components/Minimap'
 import NodePopupMenu from './components/NodePopupMenu'
 import ValidationBanner from './components/ValidationBanner'
+import SimulatorPanel from './components/SimulatorPanel'
 import JsonEditor from './components/JsonEditor'
+import ModuleImportDialog from './components/ModuleImportDialog'
+import FlowsDialog from './components/FlowsDialog'
+import SessionRecoveryDialog from './components/SessionRecoveryDialog'
+import SaveFileDialog from './components/SaveFileDialog'
+import BotSyncDialog from './components/BotSyncDialog'
+import FlowDiffPanel from './components/FlowDiffPanel'
 import { useConnectionHandlers } from './hooks/useConnectionHandlers'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
 import { useMenuState } from './hooks/useMenuState'
@@ -28,25 +37,28 @@ import { useHistoryOperations } from './hooks/useHistoryOperations'
 import { useBranchingOperations } from './hooks/useBranchingOperations'
 import { useNodeManipulation } from './hooks/useNodeManipulation'
 import { useAutoLayout } from './hooks/useAutoLayout'
+import { useModules } from './hooks/useModules'
+import { useModuleImport } from './hooks/useModuleImport'
+import { useFlowSimulator } from './hooks/useFlowSimulator'
+import { useTestScenarios } from './hooks/useTestScenarios'
+import { useFlowPersistence, type FlowContent } from './hooks/useFlowPersistence'
+import { useFlowFiles } from './hooks/useFlowFiles'
+import { useBotSync } from './hooks/useBotSync'
+import { useFlowDiff } from './hooks/useFlowDiff'
 
 const initialNodes: Node[] = []
 const initialEdges: any[] = []
+// Delay before the module catalog is downloaded for a changed bot ID
+const MODULE_CATALOG_DEBOUNCE_MS = 500
 
 function App() {
   const reactFlowWrapper = useRef<HTMLDivElement | null>(null)
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null)
   const [isLocked] = useState(false)
   const [showMinimap, setShowMinimap] = useState(false)
-  const [flowMetadata, setFlowMetadata] = useState({
-    description: '',
-    language: '',
-    mchannels_bot_id: '',
-    name: '',
-    omnichannel_config: {} as Record<string, any>,
-    stickers: {} as Record<string, any>,
-  })
+  const [flowMetadata, setFlowMetadata] = useState<CustomFlowMetadata>(createEmptyFlowMetadata)
   const toolbarRef = useRef<HTMLDivElement>(null)
-  const [validationStatus, setValidationStatus] = useState<{ isValid: boolean | null; message: string }>({
+  const [validationStatus, setValidationStatus] = useState<ValidationStatus>({
     isValid: null,
     message: '',
   })
@@ -162,10 +174,14 @@ function App() {
         ...metadata,
         omnichannel_config: metadata.omnichannel_config || {},
         stickers: metadata.stickers || {},
+        task_values: metadata.task_values || {},
       })
     }
   )
 
+  // Module catalog import (file -> diff preview -> apply)
+  const moduleImportState = useModuleImport()
+
   // Node creation handlers
   const nodeCreation = useNodeCreation(
     reactFlowWrapper,
@@ -569,6 +585,7 @@ function App() {
       ...metadata,
       omnichannel_config: metadata.omnichannel_config || {},
       stickers: metadata.stickers || {},
+      task_values: metadata.task_values || {},
     })
   }, [])
 
@@ -669,17 +686,130 @@ function App() {
 
   // handleDeleteNode is now in useNodeManipulation hook - removed duplicate
 
-  const { validate } = useValidation(nodes, edges)
+  const modules = useModules()
+  const { validate, issuesByNode } = useValidation(nodes, edges, flowMetadata.task_values, flowMetadata.channel)
 
   const handleValidate = useCallback(() => {
     const result = validate()
     setValidationStatus(result)
   }, [validate])
 
+  // Load the module catalog for the current bot; the registry notifies the toolbar, menus and validation
+  useEffect(() => {
+    const botId = flowMetadata.mchannels_bot_id
+    if (!botId) {
+      if (canReplaceModuleCatalog([])) resetModules()
+      return
+    }
+    let cancelled = false
+    // Wait until the bot ID stops changing (it is typed into the flow configuration)
+    const timeout = setTimeout(() => {
+      downloadModules(botId).then((result) => {
+        if (cancelled) return
+        // A catalog imported from a file stays unless the bot has one of its own
+        if (canReplaceModuleCatalog(result.modules)) addDynamicModules(result.modules)
+        if (result.rejected.length > 0) {
+          const rejectedMessages = result.rejected.map((entry) => {
+            const label = entry.name ? `"${entry.name}"` : `#${entry.index}`
+            return `Module ${label} rejected: ${entry.errors.join(', ')}`
+          })
+          setValidationStatus({ isValid: false, message: rejectedMessages.join('; ') })
+        }
+      })
+    }, MODULE_CATALOG_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [flowMetadata.mchannels_bot_id])
+
+  // Re-validate the canvas when the available modules change while a validation result is shown
+  const validationIsShownRef = useRef(false)
+  validationIsShownRef.current = validationStatus.isValid !== null
+  useEffect(() => {
+    if (validationIsShownRef.current) {
+      setValidationStatus(validate())
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [modules])
+
   const handleDismissValidation = useCallback(() => {
     setValidationStatus({ isValid: null, message: '' })
   }, [])
 
+  // Select a node and center it in the viewport (keeps the zoom); returns false if it does not exist
+  const focusNode = useCallback((nodeId: string): boolean => {
+    if (!reactFlowInstance) return false
+    const targetNode = nodes.find((n) => n.id === nodeId)
+    if (!targetNode) return false
+
+    setNodes((nds) =>
+      nds.map((n) => ({
+        ...n,
+        selected: n.id === nodeId,
+      }))
+    )
+
+    const targetPos = targetNode.positionAbsolute ?? targetNode.position
+    const bounds = reactFlowWrapper.current?.getBoundingClientRect()
+    if (bounds) {
+      const zoom = reactFlowInstance.getViewport().zoom
+      const centerX = targetPos.x + (targetNode.width || 220) / 2
+      const centerY = targetPos.y + (targetNode.height || 80) / 2
+      reactFlowInstance.setViewport({
+        x: -centerX * zoom + bounds.width / 2,
+        y: -centerY * zoom + bounds.height / 2,
+        zoom,
+      })
+    }
+    return true
+  }, [nodes, setNodes, reactFlowInstance])
+
+  // Validation issue clicked: select the node, center it and open its menu at the offending param
+  const handleValidationIssueClick = useCallback((issue: ValidationIssue) => {
+    if (!issue.nodeId || !focusNode(issue.nodeId)) return
+    menuState.handleOpenMenuAtParam(issue.nodeId, issue.paramName)
+  }, [focusNode, menuState])
+
+  // Flow simulator (dry run over the exported dialog)
+  const simulator = useFlowSimulator(nodes, edges, flowMetadata)
+
+  // Saved test scenarios (recorded in the simulator, run from the toolbar and after imports)
+  const testScenarios = useTestScenarios(nodes, edges, flowMetadata, setFlowMetadata, setValidationStatus)
+
+  // Stored flows: autosave to IndexedDB, the Flows dialog and crash recovery
+  const applyStoredFlow = useCallback((flow: FlowContent) => {
+    saveHistoryBeforeChange()
+    menuState.setOpenMenuNodeId(null)
+    menuState.setMenuPosition(null)
+    setNodes(flow.nodes)
+    setEdges(flow.edges)
+    handleFlowMetadataUpdate(flow.metadata)
+  }, [saveHistoryBeforeChange, menuState, setNodes, setEdges, handleFlowMetadataUpdate])
+  const flowPersistence = useFlowPersistence(nodes, edges, flowMetadata, applyStoredFlow)
+
+  // Flow files on disk (toolbar open/save, .json dropped on the canvas) and bot versions from the bot API;
+  // an opened flow becomes a new stored flow
+  const loadFlow = useCallback((reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, name: string) => {
+    flowPersistence.startNewFlow(metadata.name || name.replace(/\.json$/i, '')).then(() => {
+      jsonEditorState.handleSaveJsonEditor(reactFlowData, metadata, true)
+      testScenarios.runTestScenariosAfterImport(reactFlowData, metadata)
+    })
+  }, [flowPersistence, jsonEditorState, testScenarios])
+  const flowFiles = useFlowFiles(nodes, edges, flowMetadata, loadFlow, setValidationStatus)
+
+  // Diff of the canvas against a flow file or a bot version (panel + canvas colors)
+  const flowDiff = useFlowDiff(nodes, edges, flowMetadata, setValidationStatus)
+  const botSync = useBotSync(
+    nodes,
+    edges,
+    flowMetadata,
+    setFlowMetadata,
+    loadFlow,
+    flowDiff.compareWithFlow,
+    setValidationStatus
+  )
+
   // JSON editor handlers are now in jsonEditorState hook - removed duplicates
 
   // handleDuplicateNodes is now in useNodeManipulation hook - removed duplicate
@@ -708,6 +838,9 @@ function App() {
     draggingNodeIds: draggingNodeIdsRef.current,
     handleLabelClick: menuState.handleLabelClick,
     highestZIndexRef,
+    validationIssuesByNode: issuesByNode,
+    simulatorHighlights: simulator.highlights,
+    diffHighlights: flowDiff.highlights.nodes,
   })
 
   return (
@@ -742,18 +875,31 @@ function App() {
             }
           }}
           onAutoLayout={handleAutoLayout}
+          onImportModulesFile={moduleImportState.handleImportModulesFile}
+          onOpenSimulator={simulator.handleOpenSimulator}
+          onRunTestScenarios={testScenarios.handleRunTestScenarios}
+          onCompareWithFile={flowDiff.handleCompareWithFile}
+          onOpenFlows={flowPersistence.handleOpenFlowsDialog}
+          onOpenFile={flowFiles.handleOpenFile}
+          onSaveFile={flowFiles.handleSaveFile}
+          onSaveFileAs={flowFiles.handleOpenSaveAs}
+          onOpenBotSync={botSync.handleOpenBotSync}
+          fileName={flowFiles.fileName}
+          isDirty={flowFiles.isDirty}
         />
 
         <FlowCanvas
-          nodes={nodesWithHandlers}
-          edges={edges.map((edge) => {
+          nodes={flowDiff.highlights.removedNodes.length > 0 ? [...nodesWithHandlers, ...flowDiff.highlights.removedNodes] : nodesWithHandlers}
+          edges={[...edges, ...flowDiff.highlights.removedEdges].map((edge) => {
             // Keep all edges below nodes so dragged nodes always visually sit on top
             // Use a fixed low z-index for edges instead of matching the source node
             const edgeZIndex = 1
+            const diffHighlight = flowDiff.highlights.edges.get(edge.id)
 
             const edgeWithZIndex = {
               ...edge,
               zIndex: edgeZIndex,
+              ...(diffHighlight ? { className: `flow-diff-edge--${diffHighlight}` } : {}),
             }
 
             return edgeWithZIndex
@@ -765,7 +911,7 @@ function App() {
           onConnectEnd={onConnectEnd}
           isValidConnection={isValidConnection}
           onInit={onInit}
-          onDrop={onDrop}
+          onDrop={(event) => flowFiles.handleFileDrop(event, onDrop)}
           onDragOver={onDragOver}
           onMove={onMove}
           onPaneClick={menuState.handlePaneClick}
@@ -793,7 +939,12 @@ function App() {
               onPositionChange={menuState.handleMenuPositionChange}
               // Provide stickers so sticker nodes can render the sticker dropdown
               stickers={flowMetadata.stickers}
+              // Flow voice settings are shown next to per-module voice overrides
+              flowMetadata={flowMetadata}
               onOpenStickerMenu={menuState.handleOpenStickerMenu}
+              focusParamName={menuState.menuFocusParamName}
+              // Variables offered by {{...}} autocomplete in expr/template params
+              variables={getAvailableVariables(menuNode.id, nodes, edges, modules, flowMetadata.task_values)}
             />
           )
         })()}
@@ -843,9 +994,37 @@ function App() {
           />
         )}
 
+        {simulator.isSimulatorOpen && (
+          <SimulatorPanel
+            nodes={nodesWithHandlers}
+            path={simulator.path}
+            choices={simulator.choices}
+            result={simulator.result}
+            onFireHandler={simulator.handleFireHandler}
+            onStepBack={simulator.handleStepBack}
+            onRestart={simulator.handleRestartSimulation}
+            onClose={simulator.handleCloseSimulator}
+            onStepClick={focusNode}
+            onSaveScenario={(name) => testScenarios.handleSaveTestScenario(name, simulator.path)}
+          />
+        )}
+
+        {flowDiff.diff && (
+          <FlowDiffPanel
+            nodes={nodesWithHandlers}
+            baseLabel={flowDiff.baseLabel}
+            diff={flowDiff.diff}
+            onModuleClick={focusNode}
+            onClose={flowDiff.handleCloseDiff}
+          />
+        )}
+
         <ValidationBanner
           isValid={validationStatus.isValid}
           message={validationStatus.message}
+          issues={validationStatus.issues}
+          summary={validationStatus.summary}
+          onIssueClick={handleValidationIssueClick}
           onDismiss={handleDismissValidation}
         />
 
@@ -856,8 +1035,12 @@ function App() {
             language: flowMetadata.language,
             mchannels_bot_id: flowMetadata.mchannels_bot_id,
             name: flowMetadata.name,
+            channel: flowMetadata.channel,
             omnichannel_config: flowMetadata.omnichannel_config || {},
             stickers: flowMetadata.stickers || {},
+            task_values: flowMetadata.task_values || {},
+            test_scenarios: flowMetadata.test_scenarios,
+            preserved: flowMetadata.preserved,
           }
           const customData = translateReactFlowToCustom(reactFlowData, customMetadata)
 
@@ -870,10 +1053,69 @@ function App() {
               currentEdges={edges}
               currentMetadata={flowMetadata}
               onClose={jsonEditorState.handleCloseJsonEditor}
-              onSave={jsonEditorState.handleSaveJsonEditor}
+              onSave={(reactFlowData, metadata) => {
+                jsonEditorState.handleSaveJsonEditor(reactFlowData, metadata)
+                testScenarios.runTestScenariosAfterImport(reactFlowData, metadata)
+              }}
             />
           )
         })()}
+
+        {moduleImportState.pendingModuleImport && (
+          <ModuleImportDialog
+            pendingImport={moduleImportState.pendingModuleImport}
+            onApply={moduleImportState.handleApplyModuleImport}
+            onCancel={moduleImportState.handleCancelModuleImport}
+          />
+        )}
+
+        {flowPersistence.isFlowsDialogOpen && (
+          <FlowsDialog
+            flows={flowPersistence.flows}
+            activeFlowId={flowPersistence.activeFlowId}
+            error={flowPersistence.storageError}
+            onCreate={flowPersistence.handleCreateFlow}
+            onOpen={flowPersistence.handleOpenFlow}
+            onRename={flowPersistence.handleRenameFlow}
+            onDuplicate={flowPersistence.handleDuplicateFlow}
+            onDelete={flowPersistence.handleDeleteFlow}
+            onClose={flowPersistence.handleCloseFlowsDialog}
+          />
+        )}
+
+        {flowFiles.isSaveAsOpen && (
+          <SaveFileDialog
+            initialFileName={flowFiles.fileName ?? `${flowMetadata.name || 'flow'}.json`}
+            initialFormat={flowFiles.fileFormat}
+            onSave={flowFiles.handleSaveFileAs}
+            onClose={flowFiles.handleCloseSaveAs}
+          />
+        )}
+
+        {botSync.isBotSyncOpen && (
+          <BotSyncDialog
+            adapterLabel={botSync.adapterLabel}
+            botId={botSync.botId}
+            versions={botSync.versions}
+            isBusy={botSync.isBusy}
+            error={botSync.error}
+            conflict={botSync.conflict}
+            onBotIdChange={botSync.handleBotIdChange}
+            onRefresh={botSync.handleRefreshVersions}
+            onLoad={botSync.handleLoadVersion}
+            onCompare={botSync.handleCompareVersion}
+            onSave={botSync.handleSaveVersion}
+            onClose={botSync.handleCloseBotSync}
+          />
+        )}
+
+        {flowPersistence.recoverableFlow && (
+          <SessionRecoveryDialog
+            flow={flowPersistence.recoverableFlow}
+            onRestore={flowPersistence.handleRestoreSession}
+            onDiscard={flowPersistence.handleDiscardSession}
+          />
+        )}
       </main>
     </div>
   )
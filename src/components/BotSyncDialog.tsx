@@ -0,0 +1,150 @@
+import { createPortal } from 'react-dom'
+import CloseIcon from '@mui/icons-material/Close'
+import DifferenceIcon from '@mui/icons-material/Difference'
+import './FlowsDialog.css'
+import type { BotVersionSummary } from '../utils/botSync'
+
+interface BotSyncDialogProps {
+  adapterLabel: string
+  botId: string
+  versions: BotVersionSummary[]
+  isBusy: boolean
+  error: string | null
+  conflict: BotVersionSummary | null
+  onBotIdChange: (botId: string) => void
+  onRefresh: () => void
+  onLoad: (versionId: string) => void
+  onCompare: (versionId: string) => void
+  onSave: (force?: boolean) => void
+  onClose: () => void
+}
+
+const formatTimestamp = (timestamp: string): string => {
+  const date = new Date(timestamp)
+  return timestamp && !Number.isNaN(date.getTime()) ? date.toLocaleString() : 'unknown'
+}
+
+/**
+ * Bot versions on the bot API: list them, load one into the canvas or compare it with the canvas, save the
+ * flow as a new version.
+ */
+export default function BotSyncDialog({
+  adapterLabel,
+  botId,
+  versions,
+  isBusy,
+  error,
+  conflict,
+  onBotIdChange,
+  onRefresh,
+  onLoad,
+  onCompare,
+  onSave,
+  onClose,
+}: BotSyncDialogProps) {
+  return createPortal(
+    <div className="flows-dialog-overlay" onClick={onClose}>
+      <div className="flows-dialog-container" onClick={(e) => e.stopPropagation()}>
+        <div className="flows-dialog-header">
+          <h2>Bot versions</h2>
+          <button type="button" className="flows-dialog-icon-button" onClick={onClose} aria-label="Close">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="flows-dialog-content">
+          <form
+            className="flows-dialog-create"
+            onSubmit={(e) => {
+              e.preventDefault()
+              onRefresh()
+            }}
+          >
+            <input
+              type="text"
+              className="flows-dialog-input"
+              value={botId}
+              onChange={(e) => onBotIdChange(e.target.value)}
+              placeholder="Bot ID"
+              autoFocus
+            />
+            <button type="submit" className="flows-dialog-button" disabled={isBusy || !botId.trim()}>
+              List versions
+            </button>
+          </form>
+
+          {error && <div className="flows-dialog-error">{error}</div>}
+
+          {conflict && (
+            <div className="flows-dialog-error">
+              The bot changed since this flow was loaded: its current version is now{' '}
+              <strong>{conflict.name || conflict.id}</strong> (updated {formatTimestamp(conflict.updated_at)}).
+              Load that version to continue from it, compare it with the canvas, or save anyway to make this flow the newest version.
+              <div className="flows-dialog-create" style={{ marginTop: '0.5rem', marginBottom: 0 }}>
+                <button type="button" className="flows-dialog-button" onClick={() => onLoad(conflict.id)} disabled={isBusy}>
+                  Load remote version
+                </button>
+                <button type="button" className="flows-dialog-button" onClick={() => onCompare(conflict.id)} disabled={isBusy}>
+                  Compare
+                </button>
+                <button type="button" className="flows-dialog-button" onClick={() => onSave(true)} disabled={isBusy}>
+                  Save anyway
+                </button>
+              </div>
+            </div>
+          )}
+
+          {versions.length === 0 ? (
+            <div className="flows-dialog-empty">
+              {isBusy ? 'Loading...' : 'No versions for this bot yet - save the flow to create the first one.'}
+            </div>
+          ) : (
+            <ul className="flows-dialog-list">
+              {versions.map((version) => (
+                <li
+                  key={version.id}
+                  className={`flows-dialog-item ${version.isCurrent ? 'flows-dialog-item--active' : ''}`}
+                >
+                  <button type="button" className="flows-dialog-open" onClick={() => onLoad(version.id)} disabled={isBusy}>
+                    <span className="flows-dialog-name">{version.name || version.id}</span>
+                    <span className="flows-dialog-detail">
+                      {version.isCurrent ? 'Current · ' : ''}
+                      {version.id} · updated {formatTimestamp(version.updated_at)}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    className="flows-dialog-icon-button"
+                    onClick={() => onCompare(version.id)}
+                    disabled={isBusy}
+                    title="Compare with the canvas"
+                  >
+                    <DifferenceIcon fontSize="small" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flows-dialog-detail" style={{ marginTop: '1rem' }}>
+            Server: {adapterLabel}
+          </div>
+        </div>
+
+        <div className="flows-dialog-actions">
+          <button type="button" className="flows-dialog-button" onClick={onClose}>
+            Close
+          </button>
+          <button
+            type="button"
+            className="flows-dialog-button flows-dialog-button--primary"
+            onClick={() => onSave()}
+            disabled={isBusy || !botId.trim()}
+          >
+            Save as new version
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,89 @@
+import { type Node } from 'reactflow'
+import CloseIcon from '@mui/icons-material/Close'
+import './FlowDiffPanel.css'
+import type { FlowDiff, ModuleDiff } from '../utils/flowDiff'
+
+interface FlowDiffPanelProps {
+  nodes: Node[]
+  // What the canvas is compared with
+  baseLabel: string
+  diff: FlowDiff
+  // Center a module on the canvas
+  onModuleClick: (moduleId: string) => void
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<ModuleDiff['status'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+}
+
+/**
+ * Changes of the canvas against another version of the flow, module by module.
+ */
+export default function FlowDiffPanel({ nodes, baseLabel, diff, onModuleClick, onClose }: FlowDiffPanelProps) {
+  const getLabel = (moduleId: string): string => {
+    const node = nodes.find((n) => n.id === moduleId)
+    return node?.data?.label || moduleId || 'none'
+  }
+  const count = (status: ModuleDiff['status']) => diff.modules.filter((module) => module.status === status).length
+  const hasChanges = diff.modules.length > 0 || diff.rootModule
+
+  return (
+    <div className="flow-diff-panel">
+      <div className="flow-diff-panel-header">
+        <span className="flow-diff-panel-title" title={baseLabel}>
+          Changes since {baseLabel}
+        </span>
+        <button type="button" className="flow-diff-panel-icon-button" onClick={onClose} title="Close diff">
+          <CloseIcon fontSize="small" />
+        </button>
+      </div>
+
+      <div className="flow-diff-panel-summary">
+        {count('added')} added · {count('removed')} removed · {count('changed')} changed · {diff.unchangedCount} unchanged
+      </div>
+
+      {!hasChanges && <div className="flow-diff-panel-empty">No differences in modules, params or handlers.</div>}
+
+      {diff.rootModule && (
+        <div className="flow-diff-panel-item flow-diff-panel-item--changed">
+          <span className="flow-diff-panel-name">Root module</span>
+          <span className="flow-diff-panel-detail">
+            {getLabel(diff.rootModule.from)} → {getLabel(diff.rootModule.to)}
+          </span>
+        </div>
+      )}
+
+      {diff.modules.map((module) => (
+        <div key={module.moduleId} className={`flow-diff-panel-item flow-diff-panel-item--${module.status}`}>
+          {module.status === 'removed' ? (
+            <span className="flow-diff-panel-name">{module.moduleId}</span>
+          ) : (
+            <button type="button" className="flow-diff-panel-link" onClick={() => onModuleClick(module.moduleId)}>
+              {getLabel(module.moduleId)}
+            </button>
+          )}
+          <span className="flow-diff-panel-detail">
+            {STATUS_LABELS[module.status]} · {module.type}
+          </span>
+          {module.changedFields.length > 0 && (
+            <span className="flow-diff-panel-detail">Fields: {module.changedFields.join(', ')}</span>
+          )}
+          {module.params.map((param) => (
+            <span key={param.name} className={`flow-diff-panel-change flow-diff-panel-change--${param.status}`}>
+              {param.status === 'added' ? '+' : param.status === 'removed' ? '−' : '~'} {param.name}
+            </span>
+          ))}
+          {module.handlers.map((change) => (
+            <span key={change.handler} className="flow-diff-panel-change flow-diff-panel-change--changed">
+              {change.handler}: {change.from ? getLabel(change.from) : 'not connected'} →{' '}
+              {change.to ? getLabel(change.to) : 'not connected'}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import CloseIcon from '@mui/icons-material/Close'
+import EditIcon from '@mui/icons-material/Edit'
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'
+import './FlowsDialog.css'
+import type { StoredFlowSummary } from '../utils/flowStorage'
+
+interface FlowsDialogProps {
+  flows: StoredFlowSummary[]
+  activeFlowId: string | null
+  error: string | null
+  onCreate: (name: string) => void
+  onOpen: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+const formatSavedAt = (updatedAt: number): string => new Date(updatedAt).toLocaleString()
+
+/**
+ * Named flows stored in the browser: create, open, rename, duplicate and delete.
+ */
+export default function FlowsDialog({
+  flows,
+  activeFlowId,
+  error,
+  onCreate,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose,
+}: FlowsDialogProps) {
+  const [newFlowName, setNewFlowName] = useState('')
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  // Deleting asks for a second click on the same flow
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  const submitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name)
+    setRenaming(null)
+  }
+
+  return createPortal(
+    <div className="flows-dialog-overlay" onClick={onClose}>
+      <div className="flows-dialog-container" onClick={(e) => e.stopPropagation()}>
+        <div className="flows-dialog-header">
+          <h2>Flows</h2>
+          <button type="button" className="flows-dialog-icon-button" onClick={onClose} aria-label="Close">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="flows-dialog-content">
+          {error && <div className="flows-dialog-error">{error}</div>}
+
+          <form
+            className="flows-dialog-create"
+            onSubmit={(e) => {
+              e.preventDefault()
+              onCreate(newFlowName)
+              setNewFlowName('')
+            }}
+          >
+            <input
+              type="text"
+              className="flows-dialog-input"
+              value={newFlowName}
+              onChange={(e) => setNewFlowName(e.target.value)}
+              placeholder="New flow name"
+            />
+            <button type="submit" className="flows-dialog-button flows-dialog-button--primary">
+              New flow
+            </button>
+          </form>
+
+          {flows.length === 0 ? (
+            <div className="flows-dialog-empty">No saved flows yet - the current flow is saved as soon as you edit it.</div>
+          ) : (
+            <ul className="flows-dialog-list">
+              {flows.map((flow) => (
+                <li
+                  key={flow.id}
+                  className={`flows-dialog-item ${flow.id === activeFlowId ? 'flows-dialog-item--active' : ''}`}
+                >
+                  {renaming?.id === flow.id ? (
+                    <input
+                      type="text"
+                      className="flows-dialog-input"
+                      value={renaming.name}
+                      autoFocus
+                      onChange={(e) => setRenaming({ id: flow.id, name: e.target.value })}
+                      onBlur={submitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitRename()
+                        if (e.key === 'Escape') setRenaming(null)
+                      }}
+                    />
+                  ) : (
+                    <button type="button" className="flows-dialog-open" onClick={() => onOpen(flow.id)}>
+                      <span className="flows-dialog-name">{flow.name}</span>
+                      <span className="flows-dialog-detail">
+                        {flow.id === activeFlowId ? 'Open · ' : ''}
+                        {flow.nodeCount} node{flow.nodeCount === 1 ? '' : 's'} · saved {formatSavedAt(flow.updatedAt)}
+                      </span>
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="flows-dialog-icon-button"
+                    onClick={() => setRenaming({ id: flow.id, name: flow.name })}
+                    title="Rename"
+                  >
+                    <EditIcon fontSize="small" />
+                  </button>
+                  <button
+                    type="button"
+                    className="flows-dialog-icon-button"
+                    onClick={() => onDuplicate(flow.id)}
+                    title="Duplicate"
+                  >
+                    <ContentCopyIcon fontSize="small" />
+                  </button>
+                  {confirmDeleteId === flow.id ? (
+                    <button
+                      type="button"
+                      className="flows-dialog-button flows-dialog-button--danger"
+                      onClick={() => {
+                        onDelete(flow.id)
+                        setConfirmDeleteId(null)
+                      }}
+                      onBlur={() => setConfirmDeleteId(null)}
+                      autoFocus
+                    >
+                      Delete?
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="flows-dialog-icon-button"
+                      onClick={() => setConfirmDeleteId(flow.id)}
+                      title="Delete"
+                    >
+                      <DeleteOutlineIcon fontSize="small" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
+import { type Node } from 'reactflow'
 import CloseIcon from '@mui/icons-material/Close'
 import CheckCircleIcon from '@mui/icons-material/CheckCircle'
 import SaveIcon from '@mui/icons-material/Save'
@@ -9,6 +10,10 @@ import SwapHorizIcon from '@mui/icons-material/SwapHoriz'
 import './JsonEditor.css'
 import { translateCustomToReactFlow, validateCustomJson, type CustomFlowJson } from '../utils/translationHelpers'
 import { translateReactFlowToCustom, type CustomFlowMetadata } from '../utils/translationHelpers'
+import { formatMigrationReport } from '../utils/moduleMigrations'
+import { validateNode } from '../utils/nodeValidation'
+import type { ValidationIssue } from '../utils/graphValidation'
+import { moduleRegistry } from '../modules'
 
 interface JsonEditorProps {
   initialJson: CustomFlowJson
@@ -161,7 +166,7 @@ export default function JsonEditor({ initialJson, initialReactFlowData, initialM
         
         // Try to translate, but don't block on validation errors
         try {
-          const { reactFlowData, metadata } = translateCustomToReactFlow(
+          const { reactFlowData, metadata, migrationReport } = translateCustomToReactFlow(
             parsed as CustomFlowJson,
             currentNodes,
             currentEdges
@@ -169,7 +174,11 @@ export default function JsonEditor({ initialJson, initialReactFlowData, initialM
           reactFlowDataRef.current = reactFlowData
           metadataRef.current = metadata
           setJsonText(JSON.stringify(reactFlowData, null, 4))
-          setValidationResult({ isValid: null, message: '' })
+          setValidationResult(
+            migrationReport.length > 0
+              ? { isValid: true, message: `Migrated ${migrationReport.length} module(s):\n${formatMigrationReport(migrationReport)}` }
+              : { isValid: null, message: '' }
+          )
         } catch (translateError) {
           // If translation fails, still switch format but show a warning
           // User can edit and fix it
@@ -269,6 +278,18 @@ export default function JsonEditor({ initialJson, initialReactFlowData, initialM
           })
           return
         }
+        // Param values must match the types declared by their modules
+        const context = { nodes: parsed.nodes, edges: parsed.edges, modules: moduleRegistry.get() }
+        const typeErrors: ValidationIssue[] = parsed.nodes.flatMap((node: Node) =>
+          validateNode(node, context).filter((issue) => issue.ruleId === 'type-mismatch' || issue.ruleId === 'param-constraint')
+        )
+        if (typeErrors.length > 0) {
+          setValidationResult({
+            isValid: false,
+            message: `Validation errors:\n${typeErrors.map((issue) => issue.message).join('\n')}`,
+          })
+          return
+        }
         setValidationResult({
           isValid: true,
           message: 'ReactFlow JSON is valid',
@@ -315,7 +336,7 @@ export default function JsonEditor({ initialJson, initialReactFlowData, initialM
 
         // Try to translate - this will handle errors gracefully
         try {
-          const { reactFlowData, metadata } = translateCustomToReactFlow(
+          const { reactFlowData, metadata, migrationReport } = translateCustomToReactFlow(
             parsed as CustomFlowJson,
             currentNodes,
             currentEdges
@@ -324,14 +345,22 @@ export default function JsonEditor({ initialJson, initialReactFlowData, initialM
           reactFlowDataRef.current = reactFlowData
           metadataRef.current = metadata
           onSave(reactFlowData, metadata)
-          setValidationResult({
-            isValid: true,
-            message: 'Saved to canvas',
-          })
-          // Auto-dismiss after 5 seconds
-          setTimeout(() => {
-            setValidationResult({ isValid: null, message: '' })
-          }, 5000)
+          if (migrationReport.length > 0) {
+            // Keep the migration report visible until the user acts again
+            setValidationResult({
+              isValid: true,
+              message: `Saved to canvas. Migrated ${migrationReport.length} module(s):\n${formatMigrationReport(migrationReport)}`,
+            })
+          } else {
+            setValidationResult({
+              isValid: true,
+              message: 'Saved to canvas',
+            })
+            // Auto-dismiss after 5 seconds
+            setTimeout(() => {
+              setValidationResult({ isValid: null, message: '' })
+            }, 5000)
+          }
         } catch (translateError) {
           setValidationResult({
             isValid: false,
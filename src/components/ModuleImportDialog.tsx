@@ -0,0 +1,130 @@
+import { createPortal } from 'react-dom'
+import CloseIcon from '@mui/icons-material/Close'
+import CheckCircleIcon from '@mui/icons-material/CheckCircle'
+import './ModuleImportDialog.css'
+import type { PendingModuleImport } from '../hooks/useModuleImport'
+import type { ModuleChange } from '../utils/moduleDiff'
+
+interface ModuleImportDialogProps {
+  pendingImport: PendingModuleImport
+  onApply: () => void
+  onCancel: () => void
+}
+
+const describeChange = (change: ModuleChange): string[] => {
+  const details: string[] = []
+  if (change.addedParams.length > 0) details.push(`+ params: ${change.addedParams.join(', ')}`)
+  if (change.removedParams.length > 0) details.push(`- params: ${change.removedParams.join(', ')}`)
+  change.changedParams.forEach((param) => details.push(`~ param ${param}`))
+  if (change.addedHandlers.length > 0) details.push(`+ handlers: ${change.addedHandlers.join(', ')}`)
+  if (change.removedHandlers.length > 0) details.push(`- handlers: ${change.removedHandlers.join(', ')}`)
+  if (change.outputConfigChange) details.push(`~ outputs: ${change.outputConfigChange}`)
+  if (change.changedFields.length > 0) details.push(`~ fields: ${change.changedFields.join(', ')}`)
+  return details
+}
+
+export default function ModuleImportDialog({ pendingImport, onApply, onCancel }: ModuleImportDialogProps) {
+  const { fileName, modules, diff, rejected, error } = pendingImport
+  const canApply = !error && modules.length > 0
+
+  return createPortal(
+    <div className="module-import-overlay" onClick={onCancel}>
+      <div className="module-import-container" onClick={(e) => e.stopPropagation()}>
+        <div className="module-import-header">
+          <h2>Import modules: {fileName}</h2>
+          <button type="button" className="module-import-close-button" onClick={onCancel} aria-label="Close">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="module-import-content">
+          {error && <div className="module-import-error">Could not read catalog: {error}</div>}
+
+          {!error && modules.length === 0 && (
+            <div className="module-import-error">The file does not contain any valid modules.</div>
+          )}
+
+          {rejected.length > 0 && (
+            <div className="module-import-section module-import-section--rejected">
+              <h3>Rejected ({rejected.length})</h3>
+              <ul>
+                {rejected.map((entry) => (
+                  <li key={entry.index}>
+                    {entry.name ?? `Entry #${entry.index + 1}`}
+                    <div className="module-import-detail">{entry.errors.join('; ')}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff && diff.added.length > 0 && (
+            <div className="module-import-section module-import-section--added">
+              <h3>Added ({diff.added.length})</h3>
+              <ul>
+                {diff.added.map((module) => (
+                  <li key={module.name}>
+                    {module.name}
+                    <div className="module-import-detail">
+                      {module.type}, {module.params.length} param{module.params.length === 1 ? '' : 's'}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff && diff.changed.length > 0 && (
+            <div className="module-import-section module-import-section--changed">
+              <h3>Changed ({diff.changed.length})</h3>
+              <ul>
+                {diff.changed.map((change) => (
+                  <li key={change.name}>
+                    {change.name}
+                    {describeChange(change).map((detail) => (
+                      <div key={detail} className="module-import-detail">{detail}</div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff && diff.removed.length > 0 && (
+            <div className="module-import-section module-import-section--removed">
+              <h3>Removed ({diff.removed.length})</h3>
+              <ul>
+                {diff.removed.map((module) => (
+                  <li key={module.name}>{module.name}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff && diff.unchanged.length > 0 && (
+            <div className="module-import-section module-import-section--unchanged">
+              <h3>Unchanged ({diff.unchanged.length})</h3>
+              <div className="module-import-detail">{diff.unchanged.join(', ')}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="module-import-actions">
+          <button type="button" className="module-import-button" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="module-import-button module-import-button--primary"
+            onClick={onApply}
+            disabled={!canApply}
+          >
+            <CheckCircleIcon fontSize="small" />
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
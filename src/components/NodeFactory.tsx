@@ -4,12 +4,16 @@ import nodeConfigs, {
     type NodeType,
     isBranchingNodeType,
     isBranchingOutputNodeType,
+    isUnknownNodeType,
     NODE_TYPES,
 } from '../nodeConfigs'
-import modules from '../modules'
+import { useModules } from '../hooks/useModules'
 import { useCallback } from 'react'
 import MoreVertIcon from '@mui/icons-material/MoreVert'
+import WarningAmberIcon from '@mui/icons-material/WarningAmber'
+import ErrorIcon from '@mui/icons-material/Error'
 import Tooltip from '@mui/material/Tooltip'
+import type { ValidationIssue } from '../utils/graphValidation'
 
 interface NodeFactoryData extends NodeConfig {
     label: string
@@ -21,10 +25,13 @@ interface NodeFactoryData extends NodeConfig {
     outputCount?: number
     // For branching output nodes
     parentNodeId?: string
+    // Live validation results for this node
+    validationIssues?: ValidationIssue[]
 }
 
 function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
     const { getNodes, getEdges, setNodes } = useReactFlow()
+    const modules = useModules()
     const nodes = getNodes()
     const edges = getEdges()
     const currentNode = nodes.find(n => n.id === id)
@@ -85,11 +92,22 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
     // For branching: never show (config.hasSourceHandles is false)
     const showSourceHandles = config.hasSourceHandles && !hasOutgoingEdge
 
+    // Live validation: worst severity decides the badge, unconnected outputs get red handles
+    const validationIssues = data.validationIssues ?? []
+    const validationSeverity = validationIssues.some((issue) => issue.severity === 'error')
+        ? 'error'
+        : validationIssues.length > 0
+            ? 'warning'
+            : null
+    const hasUnconnectedOutput = validationIssues.some((issue) => issue.ruleId === 'unconnected-output')
+    const sourceHandleClass = hasUnconnectedOutput ? 'visible-handle error-handle' : 'invisible-handle'
+
     // Determine CSS classes
     const baseClasses = 'dynamic-node'
     const connectedClass = hasOutgoingEdge ? 'dynamic-node--connected' : ''
     const typeClass = config.className || ''
-    const nodeClasses = `${baseClasses} ${typeClass} ${connectedClass}`.trim()
+    const validationClass = validationSeverity ? `dynamic-node--${validationSeverity}` : ''
+    const nodeClasses = `${baseClasses} ${typeClass} ${connectedClass} ${validationClass}`.trim()
 
     // Determine cursor style
     const cursorStyle = hasOutgoingEdge ? 'default' : 'grab'
@@ -181,6 +199,36 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
             onClick={isBranchingOutputNodeType(nodeType) ? handleNodeClick : undefined}
             onMouseDown={isBranchingNodeType(nodeType) ? handleBranchingNodeMouseDown : undefined}
         >
+            {validationSeverity && (
+                <Tooltip
+                    title={
+                        <span style={{ whiteSpace: 'pre-line' }}>
+                            {validationIssues.map((issue) => issue.message).join('\n')}
+                        </span>
+                    }
+                    arrow
+                    placement="top"
+                    disableInteractive
+                >
+                    <span className={`dynamic-node-validation-badge dynamic-node-validation-badge--${validationSeverity}`}>
+                        {validationSeverity === 'error'
+                            ? <ErrorIcon style={{ fontSize: 14 }} />
+                            : <WarningAmberIcon style={{ fontSize: 14 }} />}
+                    </span>
+                </Tooltip>
+            )}
+            {isUnknownNodeType(nodeType) && (
+                <Tooltip
+                    title={`Unknown module type "${currentNode?.data?.unknownModule?.type ?? moduleName}" - params and handlers are kept as-is on export`}
+                    arrow
+                    placement="top"
+                    disableInteractive
+                >
+                    <span className="dynamic-node-warning-badge">
+                        <WarningAmberIcon style={{ fontSize: 14 }} />
+                    </span>
+                </Tooltip>
+            )}
             <div
                 className={`dynamic-node-label ${isBranchingNodeType(nodeType) ? 'branching-node-header' : ''}`}
                 style={stickerTextColor ? { color: stickerTextColor } : undefined}
@@ -256,7 +304,7 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
                         type="source"
                         position={Position.Top}
                         id="top-source"
-                        className="invisible-handle"
+                        className={sourceHandleClass}
                         isConnectable={true}
                         isConnectableStart={config.canStartConnection}
                     />
@@ -264,7 +312,7 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
                         type="source"
                         position={Position.Right}
                         id="right-source"
-                        className="invisible-handle"
+                        className={sourceHandleClass}
                         isConnectable={true}
                         isConnectableStart={config.canStartConnection}
                     />
@@ -272,7 +320,7 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
                         type="source"
                         position={Position.Bottom}
                         id="bottom-source"
-                        className="invisible-handle"
+                        className={sourceHandleClass}
                         isConnectable={true}
                         isConnectableStart={config.canStartConnection}
                     />
@@ -280,7 +328,7 @@ function NodeFactory({ data, id }: NodeProps<NodeFactoryData>) {
                         type="source"
                         position={Position.Left}
                         id="left-source"
-                        className="invisible-handle"
+                        className={sourceHandleClass}
                         isConnectable={true}
                         isConnectableStart={config.canStartConnection}
                     />
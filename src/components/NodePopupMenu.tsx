@@ -2,12 +2,15 @@ import { useEffect, useRef, useState, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { ReactFlowInstance, type Node } from 'reactflow'
 import './NodePopupMenu.css'
-import modules, { type Module } from '../modules'
-import { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, NODE_TYPES, canOutputNodeBeDeleted } from '../nodeConfigs'
+import { type Module } from '../modules'
+import { useModules } from '../hooks/useModules'
+import { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, NODE_TYPES, canOutputNodeBeDeleted, isUnknownNodeType } from '../nodeConfigs'
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined'
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'
 import CloseIcon from '@mui/icons-material/Close'
 import Tooltip from '@mui/material/Tooltip'
+import type { FlowVariable } from '../utils/flowVariables'
+import type { TestScenario } from '../utils/testScenarios'
 
 
 // Import body components
@@ -36,8 +39,11 @@ interface NodePopupMenuProps {
     language: string
     mchannels_bot_id: string
     name: string
+    channel?: string
     omnichannel_config?: Record<string, any>
     stickers?: Record<string, any>
+    task_values?: Record<string, unknown>
+    test_scenarios?: TestScenario[]
   }
   // For sticker nodes, we need access to flowMetadata to show sticker dropdown
   stickers?: Record<string, any>
@@ -48,13 +54,20 @@ interface NodePopupMenuProps {
     language: string
     mchannels_bot_id: string
     name: string
+    channel?: string
     omnichannel_config?: Record<string, any>
     stickers?: Record<string, any>
+    task_values?: Record<string, unknown>
+    test_scenarios?: TestScenario[]
   }) => void
   toolbarRef?: React.RefObject<HTMLDivElement>
   title?: string
   toolbarMenuSize?: { width: number; height: number }
   onToolbarMenuSizeChange?: (size: { width: number; height: number }) => void
+  // Param to scroll to and focus when the menu opens (e.g. from a validation issue)
+  focusParamName?: string | null
+  // Variables available to this node ({{...}} autocomplete in expr/template params)
+  variables?: FlowVariable[]
 }
 
 export default function NodePopupMenu({
@@ -77,6 +90,8 @@ export default function NodePopupMenu({
   stickers,
   toolbarMenuSize,
   onToolbarMenuSizeChange,
+  focusParamName,
+  variables,
 }: NodePopupMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null)
   const headerRef = useRef<HTMLDivElement>(null)
@@ -112,6 +127,7 @@ export default function NodePopupMenu({
   }, [isFlowConfig, isStickerMenu, toolbarMenuSize])
   const questionMarkRef = useRef<HTMLButtonElement | null>(null)
   const nodeType = node ? ((node.data?.nodeType || NODE_TYPES.SINGLE) as NodeType) : undefined
+  const modules = useModules()
   const module = node?.data?.moduleName ? modules.find((m: Module) => m.name === node.data.moduleName) : undefined
 
   // Track if user has manually positioned the menu
@@ -140,12 +156,21 @@ export default function NodePopupMenu({
     }
   }, [isFlowConfig, flowMetadata])
 
-  // Focus helper: first real input in the menu (skip buttons and checkboxes)
-  const focusFirstField = () => {
+  // Focus helper: first real input in the menu (skip buttons and checkboxes),
+  // or the first input of the requested param
+  const focusFirstField = (paramName?: string | null) => {
     if (!menuRef.current) return
-    const focusable = menuRef.current.querySelectorAll<HTMLElement>(
-      'input:not([type="checkbox"]):not([type="radio"]), textarea, select'
-    )
+    const fieldSelector = 'input:not([type="checkbox"]):not([type="radio"]), textarea, select'
+    const paramContainer = paramName
+      ? menuRef.current.querySelector<HTMLElement>(`[data-param-name="${CSS.escape(paramName)}"]`)
+      : null
+    if (paramContainer) {
+      paramContainer.scrollIntoView({ block: 'nearest' })
+      paramContainer.classList.add('node-popup-menu-param--focused')
+      paramContainer.querySelector<HTMLElement>(fieldSelector)?.focus()
+      return
+    }
+    const focusable = menuRef.current.querySelectorAll<HTMLElement>(fieldSelector)
     if (focusable.length > 0) {
       focusable[0].focus()
     }
@@ -155,9 +180,9 @@ export default function NodePopupMenu({
   useEffect(() => {
     if (!position) return
     // Defer to next frame so DOM/content are fully rendered
-    const id = requestAnimationFrame(focusFirstField)
+    const id = requestAnimationFrame(() => focusFirstField(focusParamName))
     return () => cancelAnimationFrame(id)
-  }, [position, node?.id, isFlowConfig])
+  }, [position, node?.id, isFlowConfig, focusParamName])
 
   useEffect(() => {
     // Update params when node data changes (only for node config)
@@ -832,6 +857,7 @@ export default function NodePopupMenu({
             flowMetadata={flowMetadata}
             metadata={metadata}
             onOpenStickerMenu={onOpenStickerMenu}
+            variables={variables}
           />
         )}
 
@@ -843,6 +869,7 @@ export default function NodePopupMenu({
             params={params}
             handleParamChange={handleParamChange}
             onAddOutput={onAddOutput}
+            variables={variables}
           />
         )}
 
@@ -853,11 +880,25 @@ export default function NodePopupMenu({
             module={module}
             params={params}
             handleOutputValueChange={handleOutputValueChange}
+            variables={variables}
           />
         )}
 
+        {/* Unknown module - definition is kept as imported, nothing to edit */}
+        {!isFlowConfig && !module && node && isUnknownNodeType(nodeType) && (
+          <div style={{ padding: '0.75rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.875rem' }}>
+            <p style={{ margin: '0 0 0.5rem', color: '#fbbf24' }}>
+              Module type "{node.data?.unknownModule?.type ?? node.data?.moduleName}" is not in the module catalog.
+              Its params and handlers are kept unchanged on export.
+            </p>
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontSize: '0.75rem' }}>
+              {JSON.stringify({ params, handlers: node.data?.unknownModule?.handlers ?? {} }, null, 2)}
+            </pre>
+          </div>
+        )}
+
         {/* Fallback for nodes without module (only for node config, not flow config) */}
-        {!isFlowConfig && !module && (
+        {!isFlowConfig && !module && !isUnknownNodeType(nodeType) && (
           <p style={{ padding: '0.75rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.875rem' }}>
             No module configuration found
           </p>
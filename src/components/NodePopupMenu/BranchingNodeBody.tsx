@@ -1,7 +1,8 @@
 import type { Node } from 'reactflow'
 import type { Module } from '../../modules'
-import { displayType, renderParamInput } from './helpers'
-import { getDefaultValueForType, isParamObligatory, isEmpty } from '../../utils/configHelpers'
+import { displayType, renderParamHelp, renderParamInput } from './helpers'
+import { getParamDefaultValue, isParamObligatory, isEmpty } from '../../utils/configHelpers'
+import type { FlowVariable } from '../../utils/flowVariables'
 
 interface BranchingNodeBodyProps {
   node: Node
@@ -9,6 +10,7 @@ interface BranchingNodeBodyProps {
   params: Record<string, any>
   handleParamChange: (paramName: string, value: any) => void
   onAddOutput?: (nodeId: string) => void
+  variables?: FlowVariable[]
 }
 
 export default function BranchingNodeBody({
@@ -17,6 +19,7 @@ export default function BranchingNodeBody({
   params,
   handleParamChange,
   onAddOutput,
+  variables,
 }: BranchingNodeBodyProps) {
   return (
     <div style={{ padding: '1rem' }}>
@@ -27,14 +30,14 @@ export default function BranchingNodeBody({
           return null
         }
 
-        const defaultValue = getDefaultValueForType(param.type)
+        const defaultValue = getParamDefaultValue(param)
         const isObligatory = isParamObligatory(param)
         const currentValue = params[param.name] ?? defaultValue
         const valueIsEmpty = isEmpty(currentValue)
         const hasError = isObligatory && valueIsEmpty
 
         return (
-          <div key={param.name} style={{ marginBottom: '0.75rem' }}>
+          <div key={param.name} data-param-name={param.name} style={{ marginBottom: '0.75rem' }}>
             <label
               style={{
                 display: 'block',
@@ -48,7 +51,8 @@ export default function BranchingNodeBody({
               {isObligatory && <span style={{ color: 'rgba(239, 68, 68, 0.8)', marginLeft: '0.25rem' }}>*</span>}
               {param.type ? ` (${displayType(param.type)})` : ''}
             </label>
-            {renderParamInput(param.type, params[param.name] ?? defaultValue, (value) => handleParamChange(param.name, value))}
+            {renderParamHelp(param.help)}
+            {renderParamInput(param.type, params[param.name] ?? defaultValue, (value) => handleParamChange(param.name, value), { ...param, variables })}
           </div>
         )
       })}
@@ -1,19 +1,22 @@
 import type { Node } from 'reactflow'
 import type { Module } from '../../modules'
-import { parseType, displayType, renderParamInput } from './helpers'
+import { parseType, displayType, renderParamHelp, renderParamInput } from './helpers'
 import { isEmpty } from '../../utils/configHelpers'
+import type { FlowVariable } from '../../utils/flowVariables'
 
 interface BranchingOutputBodyProps {
   node: Node
   module: Module
   params: Record<string, any>
   handleOutputValueChange: (value: any) => void
+  variables?: FlowVariable[]
 }
 
 export default function BranchingOutputBody({
   module,
   params,
   handleOutputValueChange,
+  variables,
 }: BranchingOutputBodyProps) {
   if (!module.outputConfig || module.outputConfig.type !== 'listParam') {
     return null
@@ -38,7 +41,7 @@ export default function BranchingOutputBody({
   const inputType = inner || 'str'
 
   return (
-    <div style={{ padding: '0.75rem' }}>
+    <div data-param-name="value" style={{ padding: '0.75rem' }}>
       <label
         style={{
           display: 'block',
@@ -52,7 +55,8 @@ export default function BranchingOutputBody({
         <span style={{ color: 'rgba(239, 68, 68, 0.8)', marginLeft: '0.25rem' }}>*</span>
         {elementType ? ` (${displayType(elementType)})` : ''}
       </label>
-      {renderParamInput(inputType, params.value ?? '', handleOutputValueChange)}
+      {renderParamHelp(listParam.help)}
+      {renderParamInput(inputType, params.value ?? '', handleOutputValueChange, { ...listParam, variables })}
     </div>
   )
 }
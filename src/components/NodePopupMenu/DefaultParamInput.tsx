@@ -1,5 +1,6 @@
 import type { Param } from '../../modules'
-import { displayType, renderParamInput } from './helpers'
+import { displayType, renderParamHelp, renderParamInput } from './helpers'
+import type { FlowVariable } from '../../utils/flowVariables'
 
 interface DefaultParamInputProps {
     param: Param
@@ -8,6 +9,7 @@ interface DefaultParamInputProps {
     onChange: (value: any) => void
     hasError: boolean
     isObligatory: boolean
+    variables?: FlowVariable[]
 }
 
 export default function DefaultParamInput({
@@ -17,9 +19,10 @@ export default function DefaultParamInput({
     onChange,
     hasError,
     isObligatory,
+    variables,
 }: DefaultParamInputProps) {
     return (
-        <div style={{ marginBottom: '0.75rem' }}>
+        <div data-param-name={param.name} style={{ marginBottom: '0.75rem' }}>
             <label
                 style={{
                     display: 'block',
@@ -33,7 +36,8 @@ export default function DefaultParamInput({
                 {isObligatory && <span style={{ color: 'rgba(239, 68, 68, 0.8)', marginLeft: '0.25rem' }}>*</span>}
                 {param.type ? ` (${displayType(param.type)})` : ''}
             </label>
-            {renderParamInput(param.type, value ?? defaultValue, onChange)}
+            {renderParamHelp(param.help)}
+            {renderParamInput(param.type, value ?? defaultValue, onChange, { ...param, variables })}
         </div>
     )
 }
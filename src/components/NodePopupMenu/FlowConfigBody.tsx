@@ -1,22 +1,72 @@
+import type { CSSProperties } from 'react'
+import TaskValuesEditor from './TaskValuesEditor'
+import { CHANNELS, CHANNEL_LABELS, DEFAULT_CHANNEL, SMS_SEGMENT_LENGTH, isKnownChannel } from '../../utils/channels'
+import { getSttModels, getSttProviders, getTtsProviders, getTtsVoices } from '../../utils/voiceCatalog'
+import { useVoiceCatalog } from '../../hooks/useVoiceCatalog'
+import type { TestScenario } from '../../utils/testScenarios'
+
 interface FlowConfigBodyProps {
   metadata: {
     description: string
     language: string
     mchannels_bot_id: string
     name: string
+    channel?: string
     omnichannel_config?: Record<string, any>
     stickers?: Record<string, any>
+    task_values?: Record<string, unknown>
+    test_scenarios?: TestScenario[]
   }
   setMetadata: (metadata: any) => void
   onFlowMetadataUpdate?: (metadata: any) => void
 }
 
+const labelStyle: CSSProperties = {
+  display: 'block',
+  marginBottom: '0.5rem',
+  color: 'rgba(226, 232, 240, 0.9)',
+  fontSize: '0.875rem',
+  fontWeight: 500,
+}
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  fontSize: '0.875rem',
+}
+
+const selectStyle: CSSProperties = {
+  ...inputStyle,
+  padding: '0.5rem 1.75rem 0.5rem 0.5rem',
+  appearance: 'none',
+  WebkitAppearance: 'none',
+  MozAppearance: 'none',
+}
+
+const hintStyle: CSSProperties = {
+  marginTop: '0.25rem',
+  color: 'rgba(148, 163, 184, 0.8)',
+  fontSize: '0.75rem',
+}
+
 export default function FlowConfigBody({ metadata, setMetadata, onFlowMetadataUpdate }: FlowConfigBodyProps) {
   const omni = metadata.omnichannel_config || {}
   const voice = omni.voice || {}
   const tts = voice.tts || {}
   const prosody = tts.prosody || {}
   const stt = voice.stt || {}
+  const channel = metadata.channel || DEFAULT_CHANNEL
+  const chat = omni.chat || {}
+  const sms = omni.sms || {}
+  const { catalog, errors: catalogErrors } = useVoiceCatalog()
+  const ttsProviders = getTtsProviders(catalog, metadata.language)
+  const ttsVoices = getTtsVoices(catalog, metadata.language, tts.provider || undefined)
+  const sttProviders = getSttProviders(catalog, metadata.language)
+  const sttModels = stt.provider ? getSttModels(catalog, metadata.language, stt.provider) : []
 
   const updateOmnichannel = (updater: (current: any) => any) => {
     const current = metadata.omnichannel_config || {}
@@ -28,6 +78,42 @@ export default function FlowConfigBody({ metadata, setMetadata, onFlowMetadataUp
     }
   }
 
+  // Settings of the non-voice channels are flat: omnichannel_config.<channel>.<key>
+  const updateChannelSetting = (channelName: 'chat' | 'sms', key: string, value: unknown) => {
+    updateOmnichannel((current) => ({
+      ...current,
+      [channelName]: {
+        ...(current[channelName] || {}),
+        [key]: value,
+      },
+    }))
+  }
+
+  // Merge changes into omnichannel_config.voice.tts / .stt
+  const updateVoiceSection = (section: 'tts' | 'stt', changes: Record<string, unknown>) => {
+    updateOmnichannel((current) => {
+      const v = current.voice || {}
+      return {
+        ...current,
+        voice: {
+          ...v,
+          [section]: {
+            ...(v[section] || {}),
+            ...changes,
+          },
+        },
+      }
+    })
+  }
+
+  const parseNumberInput = (raw: string): number | '' => (raw === '' ? '' : Number(raw))
+
+  // Values set on the flow (e.g. imported) that the catalog does not offer for the current language stay selectable
+  const renderUnlistedOption = (value: unknown, listed: string[]) => {
+    if (typeof value !== 'string' || !value || listed.includes(value)) return null
+    return <option value={value}>{value} (not in catalog)</option>
+  }
+
   return (
     <div style={{ padding: '1rem' }}>
       <div style={{ marginBottom: '1rem' }}>
@@ -137,10 +223,18 @@ export default function FlowConfigBody({ metadata, setMetadata, onFlowMetadataUp
           }}
         >
           <option value="">Select language…</option>
-          <option value="cs">cs</option>
-          <option value="en">en</option>
-          <option value="de">de</option>
+          {renderUnlistedOption(metadata.language, catalog.languages.map((language) => language.code))}
+          {catalog.languages.map((language) => (
+            <option key={language.code} value={language.code}>
+              {language.label ? `${language.label} (${language.code})` : language.code}
+            </option>
+          ))}
         </select>
+        {catalogErrors.length > 0 && (
+          <div style={{ ...hintStyle, color: '#fbbf24' }} title={catalogErrors.join('\n')}>
+            Voice catalog: {catalogErrors.length} problem{catalogErrors.length === 1 ? '' : 's'}, see tooltip
+          </div>
+        )}
       </div>
 
       <div style={{ marginBottom: '1rem' }}>
@@ -178,142 +272,37 @@ export default function FlowConfigBody({ metadata, setMetadata, onFlowMetadataUp
         />
       </div>
 
-      {/* Omnichannel config – voice, TTS, STT as individual fields */}
-      <div style={{ marginBottom: '1rem' }}>
-        <label
-          style={{
-            display: 'block',
-            marginBottom: '0.5rem',
-            color: 'rgba(226, 232, 240, 0.9)',
-            fontSize: '0.875rem',
-            fontWeight: 500,
-          }}
-        >
-          Voice initial user response timeout
-        </label>
-        <input
-          type="number"
-          step={100}
-          value={voice.initial_user_response_timeout ?? ''}
-          onChange={(e) => {
-            const value = e.target.value === '' ? '' : Number(e.target.value)
-            updateOmnichannel((current) => {
-              const v = current.voice || {}
-              return {
-                ...current,
-                voice: {
-                  ...v,
-                  initial_user_response_timeout: value,
-                },
-              }
-            })
-          }}
-          placeholder="e.g. 1800"
-          style={{
-            width: '100%',
-            padding: '0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-          }}
-        />
-      </div>
-
-      <div style={{ marginBottom: '1rem' }}>
-        <label
-          style={{
-            display: 'block',
-            marginBottom: '0.5rem',
-            color: 'rgba(226, 232, 240, 0.9)',
-            fontSize: '0.875rem',
-            fontWeight: 500,
-          }}
-        >
-          Voice inactivity timeout
-        </label>
-        <input
-          type="number"
-          step={100}
-          value={voice.inactivity_timeout ?? ''}
-          onChange={(e) => {
-            const value = e.target.value === '' ? '' : Number(e.target.value)
-            updateOmnichannel((current) => {
-              const v = current.voice || {}
-              return {
-                ...current,
-                voice: {
-                  ...v,
-                  inactivity_timeout: value,
-                },
-              }
-            })
-          }}
-          placeholder="e.g. 4000"
-          style={{
-            width: '100%',
-            padding: '0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-          }}
-        />
-      </div>
-
       <div style={{ marginBottom: '1rem' }}>
-        <label
-          style={{
-            display: 'block',
-            marginBottom: '0.5rem',
-            color: 'rgba(226, 232, 240, 0.9)',
-            fontSize: '0.875rem',
-            fontWeight: 500,
-          }}
-        >
-          TTS voice
-        </label>
+        <label style={labelStyle}>Channel</label>
         <select
-          value={tts.voice ?? ''}
+          value={channel}
           onChange={(e) => {
-            const value = e.target.value
-            updateOmnichannel((current) => {
-              const v = current.voice || {}
-              const t = v.tts || {}
-              return {
-                ...current,
-                voice: {
-                  ...v,
-                  tts: {
-                    ...t,
-                    voice: value,
-                  },
-                },
-              }
-            })
+            const updated = { ...metadata, channel: e.target.value }
+            setMetadata(updated)
+            if (onFlowMetadataUpdate) {
+              onFlowMetadataUpdate(updated)
+            }
           }}
           style={{
-            width: '100%',
+            ...inputStyle,
             padding: '0.5rem 1.75rem 0.5rem 0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
             appearance: 'none',
             WebkitAppearance: 'none',
             MozAppearance: 'none',
           }}
         >
-          <option value="">Select TTS voice…</option>
-          <option value="cs-CZ_TomasU8">cs-CZ_TomasU8</option>
-          <option value="cs-CZ_JanaU8">cs-CZ_JanaU8</option>
-          <option value="en-US_Alloy">en-US_Alloy</option>
+          {/* Keep channels imported from the backend that the editor does not know */}
+          {!isKnownChannel(channel) && <option value={channel}>{channel}</option>}
+          {CHANNELS.map((name) => (
+            <option key={name} value={name}>
+              {CHANNEL_LABELS[name]}
+            </option>
+          ))}
         </select>
+        <div style={hintStyle}>Settings of the other channels are kept in omnichannel_config</div>
       </div>
 
+      {/* Task values – bot-level variables usable as {{name}} in expr/template params */}
       <div style={{ marginBottom: '1rem' }}>
         <label
           style={{
@@ -324,152 +313,405 @@ export default function FlowConfigBody({ metadata, setMetadata, onFlowMetadataUp
             fontWeight: 500,
           }}
         >
-          TTS provider
+          Task values
         </label>
-        <select
-          value={tts.provider ?? ''}
-          onChange={(e) => {
-            const value = e.target.value
-            updateOmnichannel((current) => {
-              const v = current.voice || {}
-              const t = v.tts || {}
-              return {
-                ...current,
-                voice: {
-                  ...v,
-                  tts: {
-                    ...t,
-                    provider: value,
-                  },
-                },
-              }
-            })
-          }}
-          style={{
-            width: '100%',
-            padding: '0.5rem 1.75rem 0.5rem 0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-            appearance: 'none',
-            WebkitAppearance: 'none',
-            MozAppearance: 'none',
+        <TaskValuesEditor
+          taskValues={metadata.task_values || {}}
+          onChange={(taskValues) => {
+            const updated = { ...metadata, task_values: taskValues }
+            setMetadata(updated)
+            if (onFlowMetadataUpdate) {
+              onFlowMetadataUpdate(updated)
+            }
           }}
-        >
-          <option value="">Select TTS provider…</option>
-          <option value="mvoice">mvoice</option>
-          <option value="azure">azure</option>
-        </select>
+        />
       </div>
 
-      <div style={{ marginBottom: '1.5rem' }}>
-        <label
-          style={{
-            display: 'block',
-            marginBottom: '0.5rem',
-            color: 'rgba(226, 232, 240, 0.9)',
-            fontSize: '0.875rem',
-            fontWeight: 500,
-          }}
-        >
-          TTS prosody rate
-        </label>
-        {(() => {
-          const rawRate = typeof prosody.rate === 'string' ? prosody.rate : '100%'
-          const match = rawRate.match(/(\d+)/)
-          const rateNumber = match ? Number(match[1]) : 100
-          const clamped = Math.min(150, Math.max(50, rateNumber || 100))
-          return (
-            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-              <input
-                type="range"
-                min={50}
-                max={150}
-                step={5}
-                value={clamped}
-                onChange={(e) => {
-                  const value = Number(e.target.value)
-                  const rateString = `${value}%`
-                  updateOmnichannel((current) => {
-                    const v = current.voice || {}
-                    const t = v.tts || {}
-                    const p = t.prosody || {}
-                    return {
-                      ...current,
-                      voice: {
-                        ...v,
-                        tts: {
-                          ...t,
-                          prosody: {
-                            ...p,
-                            rate: rateString,
-                          },
-                        },
-                      },
-                    }
-                  })
-                }}
-                style={{ flex: 1 }}
-              />
-              <span style={{ minWidth: '3rem', textAlign: 'right', fontSize: '0.8rem', color: '#e5e7eb' }}>
-                {clamped}%
+      {/* Test scenarios – recorded in the simulator, run from the toolbar */}
+      <div style={{ marginBottom: '1rem' }}>
+        <label style={labelStyle}>Test scenarios</label>
+        {(metadata.test_scenarios || []).length === 0 ? (
+          <div style={hintStyle}>No test scenarios yet - record one in the simulator</div>
+        ) : (
+          (metadata.test_scenarios || []).map((scenario, index) => (
+            <div
+              key={index}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem', fontSize: '0.875rem' }}
+            >
+              <span style={{ flex: 1, color: '#e5e7eb' }}>{scenario.name}</span>
+              <span style={{ color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.75rem' }}>
+                {scenario.handlers.length} step{scenario.handlers.length === 1 ? '' : 's'}
               </span>
+              <button
+                type="button"
+                onClick={() => {
+                  const updated = {
+                    ...metadata,
+                    test_scenarios: (metadata.test_scenarios || []).filter((_, i) => i !== index),
+                  }
+                  setMetadata(updated)
+                  if (onFlowMetadataUpdate) {
+                    onFlowMetadataUpdate(updated)
+                  }
+                }}
+                style={{
+                  padding: '0.125rem 0.5rem',
+                  border: '1px solid rgba(148, 163, 184, 0.4)',
+                  borderRadius: '4px',
+                  background: 'transparent',
+                  color: 'rgba(226, 232, 240, 0.9)',
+                  fontSize: '0.75rem',
+                  cursor: 'pointer',
+                }}
+              >
+                Delete
+              </button>
             </div>
-          )
-        })()}
+          ))
+        )}
       </div>
 
-      <div style={{ marginBottom: '1rem' }}>
-        <label
-          style={{
-            display: 'block',
-            marginBottom: '0.5rem',
-            color: 'rgba(226, 232, 240, 0.9)',
-            fontSize: '0.875rem',
-            fontWeight: 500,
-          }}
-        >
-          STT provider
-        </label>
-        <select
-          value={stt.provider ?? ''}
-          onChange={(e) => {
-            const value = e.target.value
-            updateOmnichannel((current) => {
-              const v = current.voice || {}
-              const s = v.stt || {}
-              return {
-                ...current,
-                voice: {
-                  ...v,
-                  stt: {
-                    ...s,
-                    provider: value,
-                  },
-                },
-              }
-            })
-          }}
-          style={{
-            width: '100%',
-            padding: '0.5rem 1.75rem 0.5rem 0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-            appearance: 'none',
-            WebkitAppearance: 'none',
-            MozAppearance: 'none',
-          }}
-        >
-          <option value="">Select STT provider…</option>
-          <option value="azure">azure</option>
-          <option value="mvoice">mvoice</option>
-        </select>
-      </div>
+      {channel === 'voice' && (
+        <>
+          {/* Omnichannel config – voice, TTS, STT as individual fields */}
+          <div style={{ marginBottom: '1rem' }}>
+            <label
+              style={{
+                display: 'block',
+                marginBottom: '0.5rem',
+                color: 'rgba(226, 232, 240, 0.9)',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+              }}
+            >
+              Voice initial user response timeout
+            </label>
+            <input
+              type="number"
+              step={100}
+              value={voice.initial_user_response_timeout ?? ''}
+              onChange={(e) => {
+                const value = e.target.value === '' ? '' : Number(e.target.value)
+                updateOmnichannel((current) => {
+                  const v = current.voice || {}
+                  return {
+                    ...current,
+                    voice: {
+                      ...v,
+                      initial_user_response_timeout: value,
+                    },
+                  }
+                })
+              }}
+              placeholder="e.g. 1800"
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                border: '1px solid rgba(148, 163, 184, 0.7)',
+                borderRadius: '4px',
+                background: 'rgba(15, 23, 42, 0.9)',
+                color: '#e5e7eb',
+                fontSize: '0.875rem',
+              }}
+            />
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label
+              style={{
+                display: 'block',
+                marginBottom: '0.5rem',
+                color: 'rgba(226, 232, 240, 0.9)',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+              }}
+            >
+              Voice inactivity timeout
+            </label>
+            <input
+              type="number"
+              step={100}
+              value={voice.inactivity_timeout ?? ''}
+              onChange={(e) => {
+                const value = e.target.value === '' ? '' : Number(e.target.value)
+                updateOmnichannel((current) => {
+                  const v = current.voice || {}
+                  return {
+                    ...current,
+                    voice: {
+                      ...v,
+                      inactivity_timeout: value,
+                    },
+                  }
+                })
+              }}
+              placeholder="e.g. 4000"
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                border: '1px solid rgba(148, 163, 184, 0.7)',
+                borderRadius: '4px',
+                background: 'rgba(15, 23, 42, 0.9)',
+                color: '#e5e7eb',
+                fontSize: '0.875rem',
+              }}
+            />
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>TTS provider</label>
+            <select
+              value={tts.provider ?? ''}
+              onChange={(e) => {
+                const provider = e.target.value
+                // Drop the voice when the new provider does not offer it
+                const keepVoice = !provider || getTtsVoices(catalog, metadata.language, provider).some((v) => v.id === tts.voice)
+                updateVoiceSection('tts', keepVoice ? { provider } : { provider, voice: '' })
+              }}
+              style={selectStyle}
+            >
+              <option value="">Select TTS provider…</option>
+              {renderUnlistedOption(tts.provider, ttsProviders.map((provider) => provider.name))}
+              {ttsProviders.map((provider) => (
+                <option key={provider.name} value={provider.name}>
+                  {provider.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>TTS voice</label>
+            <select
+              value={tts.voice ?? ''}
+              onChange={(e) => {
+                const selected = ttsVoices.find((v) => v.id === e.target.value)
+                // Picking a voice without a provider selects the voice's provider too
+                updateVoiceSection('tts', selected && !tts.provider ? { voice: selected.id, provider: selected.provider } : { voice: e.target.value })
+              }}
+              style={selectStyle}
+            >
+              <option value="">Select TTS voice…</option>
+              {renderUnlistedOption(tts.voice, ttsVoices.map((v) => v.id))}
+              {ttsVoices.map((v) => (
+                <option key={`${v.provider}:${v.id}`} value={v.id}>
+                  {v.label ? `${v.label} (${v.id})` : v.id}
+                </option>
+              ))}
+            </select>
+            {ttsVoices.length === 0 && (
+              <div style={hintStyle}>No voices in the catalog for this language{tts.provider ? ' and provider' : ''}</div>
+            )}
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label
+              style={{
+                display: 'block',
+                marginBottom: '0.5rem',
+                color: 'rgba(226, 232, 240, 0.9)',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+              }}
+            >
+              TTS prosody rate
+            </label>
+            {(() => {
+              const rawRate = typeof prosody.rate === 'string' ? prosody.rate : '100%'
+              const match = rawRate.match(/(\d+)/)
+              const rateNumber = match ? Number(match[1]) : 100
+              const clamped = Math.min(150, Math.max(50, rateNumber || 100))
+              return (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                  <input
+                    type="range"
+                    min={50}
+                    max={150}
+                    step={5}
+                    value={clamped}
+                    onChange={(e) => {
+                      const value = Number(e.target.value)
+                      const rateString = `${value}%`
+                      updateOmnichannel((current) => {
+                        const v = current.voice || {}
+                        const t = v.tts || {}
+                        const p = t.prosody || {}
+                        return {
+                          ...current,
+                          voice: {
+                            ...v,
+                            tts: {
+                              ...t,
+                              prosody: {
+                                ...p,
+                                rate: rateString,
+                              },
+                            },
+                          },
+                        }
+                      })
+                    }}
+                    style={{ flex: 1 }}
+                  />
+                  <span style={{ minWidth: '3rem', textAlign: 'right', fontSize: '0.8rem', color: '#e5e7eb' }}>
+                    {clamped}%
+                  </span>
+                </div>
+              )
+            })()}
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>STT provider</label>
+            <select
+              value={stt.provider ?? ''}
+              onChange={(e) => {
+                const provider = e.target.value
+                // Drop the model when the new provider does not offer it
+                const keepModel = !stt.model || getSttModels(catalog, metadata.language, provider).some((model) => model.id === stt.model)
+                updateVoiceSection('stt', keepModel ? { provider } : { provider, model: '' })
+              }}
+              style={selectStyle}
+            >
+              <option value="">Select STT provider…</option>
+              {renderUnlistedOption(stt.provider, sttProviders.map((provider) => provider.name))}
+              {sttProviders.map((provider) => (
+                <option key={provider.name} value={provider.name}>
+                  {provider.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>STT model</label>
+            {sttModels.length > 0 ? (
+              <select value={stt.model ?? ''} onChange={(e) => updateVoiceSection('stt', { model: e.target.value })} style={selectStyle}>
+                <option value="">Provider default</option>
+                {renderUnlistedOption(stt.model, sttModels.map((model) => model.id))}
+                {sttModels.map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.label ? `${model.label} (${model.id})` : model.id}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={stt.model ?? ''}
+                onChange={(e) => updateVoiceSection('stt', { model: e.target.value })}
+                placeholder="Provider default"
+                style={inputStyle}
+              />
+            )}
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>STT hints</label>
+            <textarea
+              value={Array.isArray(stt.hints) ? stt.hints.join('\n') : ''}
+              onChange={(e) => {
+                const hints = e.target.value.split('\n')
+                // An empty textarea means no hints (not a single empty phrase)
+                updateVoiceSection('stt', { hints: hints.length === 1 && hints[0] === '' ? [] : hints })
+              }}
+              placeholder="One phrase per line"
+              style={{ ...inputStyle, minHeight: '60px', resize: 'vertical', fontFamily: 'inherit' }}
+            />
+            <div style={hintStyle}>Phrases the recognizer should prefer (names, product terms)</div>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>STT endpointing (ms)</label>
+            <input
+              type="number"
+              min={0}
+              step={50}
+              value={stt.endpointing ?? ''}
+              onChange={(e) => updateVoiceSection('stt', { endpointing: parseNumberInput(e.target.value) })}
+              placeholder="e.g. 500"
+              style={inputStyle}
+            />
+            <div style={hintStyle}>Silence after which the user's utterance is considered finished</div>
+          </div>
+        </>
+      )}
+
+      {/* Omnichannel config – chat */}
+      {channel === 'chat' && (
+        <>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>Chat typing delay (ms)</label>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={chat.typing_delay ?? ''}
+              onChange={(e) => updateChannelSetting('chat', 'typing_delay', parseNumberInput(e.target.value))}
+              placeholder="e.g. 800"
+              style={inputStyle}
+            />
+            <div style={hintStyle}>How long the typing indicator is shown before each bot message</div>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <input
+                type="checkbox"
+                checked={chat.split_messages === true}
+                onChange={(e) => updateChannelSetting('chat', 'split_messages', e.target.checked)}
+              />
+              Split long messages
+            </label>
+          </div>
+
+          {chat.split_messages === true && (
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={labelStyle}>Max message length</label>
+              <input
+                type="number"
+                min={1}
+                value={chat.max_message_length ?? ''}
+                onChange={(e) => updateChannelSetting('chat', 'max_message_length', parseNumberInput(e.target.value))}
+                placeholder="e.g. 300"
+                style={inputStyle}
+              />
+              <div style={hintStyle}>Longer messages are sent as several bubbles, split between sentences</div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Omnichannel config – SMS */}
+      {channel === 'sms' && (
+        <>
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>SMS max length</label>
+            <input
+              type="number"
+              min={1}
+              value={sms.max_length ?? ''}
+              onChange={(e) => updateChannelSetting('sms', 'max_length', parseNumberInput(e.target.value))}
+              placeholder={`e.g. ${SMS_SEGMENT_LENGTH}`}
+              style={inputStyle}
+            />
+            <div style={hintStyle}>Maximum characters of one bot message</div>
+          </div>
+
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={labelStyle}>SMS max segments</label>
+            <input
+              type="number"
+              min={1}
+              value={sms.max_segments ?? ''}
+              onChange={(e) => updateChannelSetting('sms', 'max_segments', parseNumberInput(e.target.value))}
+              placeholder="e.g. 3"
+              style={inputStyle}
+            />
+            <div style={hintStyle}>A single SMS segment holds {SMS_SEGMENT_LENGTH} characters</div>
+          </div>
+        </>
+      )}
     </div>
   )
 }
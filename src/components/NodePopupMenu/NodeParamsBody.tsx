@@ -1,7 +1,10 @@
 import type { Module } from '../../modules'
-import { getDefaultValueForType, isParamObligatory, isEmpty } from '../../utils/configHelpers'
+import { getParamDefaultValue, isParamObligatory, isEmpty } from '../../utils/configHelpers'
 import StickerParamInput from './StickerParamInput'
 import DefaultParamInput from './DefaultParamInput'
+import type { FlowVariable } from '../../utils/flowVariables'
+import { VOICE_OVERRIDES_PARAM } from '../../utils/voiceOverrides'
+import VoiceOverridesInput from './VoiceOverridesInput'
 
 interface NodeParamsBodyProps {
   module: Module
@@ -10,11 +13,14 @@ interface NodeParamsBodyProps {
   stickers?: Record<string, any>
   flowMetadata?: {
     stickers?: Record<string, any>
+    language?: string
+    omnichannel_config?: { voice?: Record<string, unknown> }
   }
   metadata?: {
     stickers?: Record<string, any>
   }
   onOpenStickerMenu?: () => void
+  variables?: FlowVariable[]
 }
 
 export default function NodeParamsBody({
@@ -25,11 +31,12 @@ export default function NodeParamsBody({
   flowMetadata,
   metadata,
   onOpenStickerMenu,
+  variables,
 }: NodeParamsBodyProps) {
   return (
     <div style={{ padding: '1rem' }}>
       {module.params.map((param) => {
-        const defaultValue = getDefaultValueForType(param.type)
+        const defaultValue = getParamDefaultValue(param)
         const isObligatory = isParamObligatory(param)
         const currentValue = params[param.name] ?? defaultValue
         const valueIsEmpty = isEmpty(currentValue)
@@ -63,10 +70,20 @@ export default function NodeParamsBody({
             onChange={(value) => handleParamChange(param.name, value)}
             hasError={hasError}
             isObligatory={isObligatory}
+            variables={variables}
           />
         )
       })}
-      {module.params.length === 0 && (
+      {/* Overrides of the flow's voice settings, exported in the node's params */}
+      {module.voiceOverrides && (
+        <VoiceOverridesInput
+          value={params[VOICE_OVERRIDES_PARAM]}
+          onChange={(value) => handleParamChange(VOICE_OVERRIDES_PARAM, value)}
+          flowVoice={flowMetadata?.omnichannel_config?.voice}
+          language={flowMetadata?.language}
+        />
+      )}
+      {module.params.length === 0 && !module.voiceOverrides && (
         <p style={{ padding: '0.5rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.875rem' }}>
           No parameters configured
         </p>
@@ -0,0 +1,73 @@
+import { useState, type CSSProperties } from 'react'
+
+interface NumberParamInputProps {
+  value: unknown
+  // `int` params only accept whole numbers
+  integer: boolean
+  min?: number
+  max?: number
+  onChange: (value: number) => void
+}
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  boxSizing: 'border-box',
+}
+
+const errorStyle: CSSProperties = {
+  marginTop: '0.25rem',
+  color: 'rgba(239, 68, 68, 0.9)',
+  fontSize: '0.75rem',
+}
+
+// Returns an error message when a number input's text is not a number of the param type
+const getNumberError = (text: string, integer: boolean): string | null => {
+  if (text.trim() === '' || !Number.isFinite(Number(text))) return 'Enter a number'
+  if (integer && !Number.isInteger(Number(text))) return 'Must be an integer'
+  return null
+}
+
+/**
+ * Number input that keeps what was typed: invalid text (empty, "-", 1.5 for an int) stays in the input
+ * with an inline error and only valid numbers are committed.
+ */
+export default function NumberParamInput({ value, integer, min, max, onChange }: NumberParamInputProps) {
+  const text = typeof value === 'number' ? String(value) : ''
+  const [draft, setDraft] = useState(text)
+  // Reset the draft when the value changes from outside (undo, JSON editor, another row)
+  const [shownText, setShownText] = useState(text)
+  if (shownText !== text) {
+    setShownText(text)
+    setDraft(text)
+  }
+  // An unset value with an empty input is not an error yet
+  const error = draft === '' && text === '' ? null : getNumberError(draft, integer)
+
+  return (
+    <div style={{ width: '100%' }}>
+      <input
+        type="number"
+        value={draft}
+        min={min}
+        max={max}
+        step={integer ? 1 : 'any'}
+        onChange={(e) => {
+          const nextText = e.target.value
+          setDraft(nextText)
+          if (!getNumberError(nextText, integer)) {
+            // The value now matches the draft - keep the draft as typed
+            setShownText(String(Number(nextText)))
+            onChange(Number(nextText))
+          }
+        }}
+        style={{ ...inputStyle, borderColor: error ? 'rgba(239, 68, 68, 0.8)' : undefined }}
+      />
+      {error && <div style={errorStyle}>{error}</div>}
+    </div>
+  )
+}
@@ -24,7 +24,7 @@ export default function StickerParamInput({
     const selected = selectedArray[0] ?? ''
 
     return (
-        <div style={{ marginBottom: '0.75rem' }}>
+        <div data-param-name={param.name} style={{ marginBottom: '0.75rem' }}>
             <label
                 style={{
                     display: 'block',
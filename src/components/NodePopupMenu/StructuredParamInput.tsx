@@ -0,0 +1,313 @@
+import { useRef, useState, type CSSProperties } from 'react'
+import AddIcon from '@mui/icons-material/Add'
+import CloseIcon from '@mui/icons-material/Close'
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward'
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward'
+import { getDefaultValueForType } from '../../utils/configHelpers'
+import { formatTypeTree, type TypeTree } from '../../utils/paramTypeCheck'
+import { isPlainObject } from '../../utils/typeGuards'
+import { renderParamInput, type ParamInputOptions } from './helpers'
+
+interface StructuredParamInputProps {
+  type: TypeTree | null
+  value: unknown
+  onChange: (value: unknown) => void
+  // Constraints of a list param apply to its items (see checkParamConstraints)
+  constraints?: ParamInputOptions
+  depth?: number
+}
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.375rem 0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  fontSize: '0.875rem',
+  boxSizing: 'border-box',
+}
+
+const iconButtonStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: '0.125rem',
+  border: 'none',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: 'rgba(148, 163, 184, 0.9)',
+  cursor: 'pointer',
+}
+
+const addButtonStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.25rem',
+  padding: '0.25rem 0.5rem',
+  border: '1px dashed rgba(148, 163, 184, 0.5)',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: 'rgba(226, 232, 240, 0.9)',
+  fontSize: '0.75rem',
+  cursor: 'pointer',
+}
+
+const errorStyle: CSSProperties = {
+  marginTop: '0.25rem',
+  color: 'rgba(239, 68, 68, 0.9)',
+  fontSize: '0.75rem',
+}
+
+const getDefaultValue = (type: TypeTree | null): unknown => (type ? getDefaultValueForType(formatTypeTree(type)) : '')
+
+// Keys are strings in JSON - returns an error message when the key does not fit the declared key type
+const getKeyError = (key: string, keyType: TypeTree | null): string | null => {
+  if (key === '') return 'Key must not be empty'
+  if (!keyType || keyType.kind !== 'scalar') return null
+  if (keyType.name === 'int' && !/^-?\d+$/.test(key)) return 'Key must be an integer'
+  if ((keyType.name === 'float' || keyType.name === 'number') && !Number.isFinite(Number(key))) return 'Key must be a number'
+  return null
+}
+
+/**
+ * Free-form JSON input for values without a declared type (e.g. items of a bare `list`).
+ * Keeps the draft while it does not parse and shows the parse error instead of dropping the input.
+ */
+function JsonValueInput({ value, onChange }: { value: unknown; onChange: (value: unknown) => void }) {
+  const serializedValue = JSON.stringify(value ?? null)
+  const [draft, setDraft] = useState(serializedValue)
+  const [error, setError] = useState<string | null>(null)
+  // Reset the draft when the value changes from outside (undo, JSON editor, a row above was removed)
+  const [shownValue, setShownValue] = useState(serializedValue)
+  if (shownValue !== serializedValue) {
+    setShownValue(serializedValue)
+    setDraft(serializedValue)
+    setError(null)
+  }
+
+  return (
+    <div style={{ flex: 1 }}>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          try {
+            const parsed = JSON.parse(e.target.value)
+            // The value now matches the draft - keep the draft as typed
+            setShownValue(JSON.stringify(parsed ?? null))
+            onChange(parsed)
+            setError(null)
+          } catch (parseError) {
+            setError(parseError instanceof Error ? parseError.message : 'Invalid JSON')
+          }
+        }}
+        style={{ ...inputStyle, fontFamily: 'monospace', borderColor: error ? 'rgba(239, 68, 68, 0.8)' : undefined }}
+      />
+      {error && <div style={errorStyle}>{error}</div>}
+    </div>
+  )
+}
+
+/**
+ * Key input of a dict row. Invalid or duplicate keys stay in the input with an inline error
+ * and are only committed once they are valid.
+ */
+function DictKeyInput({
+  value,
+  keyType,
+  existingKeys,
+  onRename,
+}: {
+  value: string
+  keyType: TypeTree | null
+  existingKeys: string[]
+  onRename: (key: string) => void
+}) {
+  const [draft, setDraft] = useState(value)
+  // Reset the draft when the row shows a different key (e.g. after the value was replaced from outside)
+  const [shownKey, setShownKey] = useState(value)
+  if (shownKey !== value) {
+    setShownKey(value)
+    setDraft(value)
+  }
+  const error = draft !== value && existingKeys.includes(draft) ? 'Duplicate key' : getKeyError(draft, keyType)
+
+  return (
+    <div style={{ flex: '0 0 35%' }}>
+      <input
+        type="text"
+        value={draft}
+        placeholder="key"
+        onChange={(e) => {
+          const nextKey = e.target.value
+          setDraft(nextKey)
+          if (nextKey !== value && !existingKeys.includes(nextKey) && !getKeyError(nextKey, keyType)) {
+            onRename(nextKey)
+          }
+        }}
+        style={{ ...inputStyle, borderColor: error ? 'rgba(239, 68, 68, 0.8)' : undefined }}
+      />
+      {error && <div style={errorStyle}>{error}</div>}
+    </div>
+  )
+}
+
+/**
+ * Structured editor for list and dict params, driven by the parsed param type:
+ * rows that can be added, removed and reordered for lists, key/value tables for dicts,
+ * nested editors for nested types and type-appropriate inputs for the leaves.
+ */
+export default function StructuredParamInput({ type, value, onChange, constraints = {}, depth = 0 }: StructuredParamInputProps) {
+  // Give each row a stable id so inputs with local state keep it when rows are reordered or removed
+  const rowIdsRef = useRef<number[]>([])
+  const nextRowIdRef = useRef(0)
+  const getRowIds = (count: number): number[] => {
+    const ids = rowIdsRef.current.slice(0, count)
+    while (ids.length < count) ids.push(nextRowIdRef.current++)
+    rowIdsRef.current = ids
+    return ids
+  }
+  // Dict rows are identified by their key (a renamed key keeps its id)
+  const keyIdsRef = useRef(new Map<string, number>())
+  const getKeyIds = (keys: string[]): number[] => {
+    const keyIds = new Map<string, number>()
+    keys.forEach((key) => keyIds.set(key, keyIdsRef.current.get(key) ?? nextRowIdRef.current++))
+    keyIdsRef.current = keyIds
+    return keys.map((key) => keyIds.get(key)!)
+  }
+
+  if (!type) {
+    return <JsonValueInput value={value} onChange={onChange} />
+  }
+
+  if (type.kind === 'scalar') {
+    return <div style={{ flex: 1 }}>{renderParamInput(type.name, value, onChange, constraints)}</div>
+  }
+
+  const nestedStyle: CSSProperties = {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.375rem',
+    ...(depth > 0 ? { paddingLeft: '0.5rem', borderLeft: '2px solid rgba(148, 163, 184, 0.25)' } : {}),
+  }
+
+  if (type.kind === 'list') {
+    const items = Array.isArray(value) ? value : []
+    const ids = getRowIds(items.length)
+    const moveItem = (from: number, to: number) => {
+      const nextItems = [...items]
+      const [moved] = nextItems.splice(from, 1)
+      nextItems.splice(to, 0, moved)
+      const nextIds = [...ids]
+      const [movedId] = nextIds.splice(from, 1)
+      nextIds.splice(to, 0, movedId)
+      rowIdsRef.current = nextIds
+      onChange(nextItems)
+    }
+    const removeItem = (index: number) => {
+      rowIdsRef.current = ids.filter((_, i) => i !== index)
+      onChange(items.filter((_, i) => i !== index))
+    }
+
+    return (
+      <div style={nestedStyle}>
+        {!Array.isArray(value) && value !== undefined && value !== null && (
+          <div style={errorStyle}>Expected {formatTypeTree(type)} - adding an item replaces the current value</div>
+        )}
+        {items.map((item, index) => (
+          <div key={ids[index]} style={{ display: 'flex', alignItems: 'flex-start', gap: '0.25rem' }}>
+            <StructuredParamInput
+              type={type.item}
+              value={item}
+              onChange={(nextItem) => onChange(items.map((existing, i) => (i === index ? nextItem : existing)))}
+              constraints={constraints}
+              depth={depth + 1}
+            />
+            <button
+              type="button"
+              style={iconButtonStyle}
+              onClick={() => moveItem(index, index - 1)}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              <ArrowUpwardIcon style={{ fontSize: 16 }} />
+            </button>
+            <button
+              type="button"
+              style={iconButtonStyle}
+              onClick={() => moveItem(index, index + 1)}
+              disabled={index === items.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDownwardIcon style={{ fontSize: 16 }} />
+            </button>
+            <button type="button" style={iconButtonStyle} onClick={() => removeItem(index)} aria-label="Remove item">
+              <CloseIcon style={{ fontSize: 16 }} />
+            </button>
+          </div>
+        ))}
+        <div>
+          <button type="button" style={addButtonStyle} onClick={() => onChange([...items, getDefaultValue(type.item)])}>
+            <AddIcon style={{ fontSize: 14 }} />
+            Add item
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const entries = isPlainObject(value) ? Object.entries(value) : []
+  const keys = entries.map(([key]) => key)
+  const ids = getKeyIds(keys)
+  const renameKey = (oldKey: string, newKey: string) => {
+    keyIdsRef.current.set(newKey, keyIdsRef.current.get(oldKey)!)
+    // Rebuild the object so the renamed entry keeps its position
+    onChange(Object.fromEntries(entries.map(([key, entryValue]) => [key === oldKey ? newKey : key, entryValue])))
+  }
+  const removeEntry = (index: number) => {
+    onChange(Object.fromEntries(entries.filter((_, i) => i !== index)))
+  }
+  const addEntry = () => {
+    const numericKeys = type.key?.kind === 'scalar' && ['int', 'float', 'number'].includes(type.key.name)
+    const makeKey = (n: number) => (numericKeys ? String(n) : n === 0 ? 'key' : `key${n}`)
+    let suffix = 0
+    while (keys.includes(makeKey(suffix))) suffix++
+    onChange({ ...(isPlainObject(value) ? value : {}), [makeKey(suffix)]: getDefaultValue(type.value) })
+  }
+
+  return (
+    <div style={nestedStyle}>
+      {!isPlainObject(value) && value !== undefined && value !== null && (
+        <div style={errorStyle}>Expected {formatTypeTree(type)} - adding an entry replaces the current value</div>
+      )}
+      {entries.map(([key, entryValue], index) => (
+        <div key={ids[index]} style={{ display: 'flex', alignItems: 'flex-start', gap: '0.25rem' }}>
+          <DictKeyInput
+            value={key}
+            keyType={type.key}
+            existingKeys={keys}
+            onRename={(newKey) => renameKey(key, newKey)}
+          />
+          <StructuredParamInput
+            type={type.value}
+            value={entryValue}
+            onChange={(nextValue) => onChange({ ...(value as Record<string, unknown>), [key]: nextValue })}
+            depth={depth + 1}
+          />
+          <button type="button" style={iconButtonStyle} onClick={() => removeEntry(index)} aria-label="Remove entry">
+            <CloseIcon style={{ fontSize: 16 }} />
+          </button>
+        </div>
+      ))}
+      <div>
+        <button type="button" style={addButtonStyle} onClick={addEntry}>
+          <AddIcon style={{ fontSize: 14 }} />
+          Add entry
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import { useState, type CSSProperties } from 'react'
+import AddIcon from '@mui/icons-material/Add'
+import CloseIcon from '@mui/icons-material/Close'
+import {
+  TASK_VALUE_NAME_PATTERN,
+  TASK_VALUE_TYPES,
+  getDefaultForTypeChange,
+  readTaskValue,
+  writeTaskValue,
+} from '../../utils/taskValues'
+import { getDefaultValueForType } from '../../utils/configHelpers'
+import { renderParamInput } from './helpers'
+
+interface TaskValuesEditorProps {
+  taskValues: Record<string, unknown>
+  onChange: (taskValues: Record<string, unknown>) => void
+}
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.375rem 0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  fontSize: '0.875rem',
+  boxSizing: 'border-box',
+}
+
+const getNameError = (name: string, currentName: string, existingNames: string[]): string | null => {
+  if (!TASK_VALUE_NAME_PATTERN.test(name)) return 'Use letters, digits and _ (not starting with a digit)'
+  if (name !== currentName && existingNames.includes(name)) return 'Duplicate name'
+  return null
+}
+
+// Name input keeps invalid drafts locally and only renames the entry once the name is valid
+function TaskValueNameInput({
+  name,
+  existingNames,
+  onRename,
+}: {
+  name: string
+  existingNames: string[]
+  onRename: (name: string) => void
+}) {
+  const [draft, setDraft] = useState(name)
+  // Reset the draft when the row shows a different entry (e.g. after a row above was removed)
+  const [shownName, setShownName] = useState(name)
+  if (shownName !== name) {
+    setShownName(name)
+    setDraft(name)
+  }
+  const error = getNameError(draft, name, existingNames)
+
+  return (
+    <div style={{ flex: 1 }}>
+      <input
+        type="text"
+        value={draft}
+        placeholder="name"
+        onChange={(e) => {
+          const nextName = e.target.value
+          setDraft(nextName)
+          if (nextName !== name && !getNameError(nextName, name, existingNames)) {
+            onRename(nextName)
+          }
+        }}
+        style={{ ...fieldStyle, borderColor: error ? 'rgba(239, 68, 68, 0.8)' : undefined }}
+      />
+      {error && <div style={{ marginTop: '0.25rem', color: 'rgba(239, 68, 68, 0.9)', fontSize: '0.75rem' }}>{error}</div>}
+    </div>
+  )
+}
+
+/**
+ * Editor for bot-level task values: one row per value with name, type and default value.
+ * Entries that are not edited keep the shape they were imported with.
+ */
+export default function TaskValuesEditor({ taskValues, onChange }: TaskValuesEditorProps) {
+  const entries = Object.entries(taskValues)
+  const names = entries.map(([name]) => name)
+
+  const updateEntry = (index: number, nextName: string, nextRaw: unknown) => {
+    // Rebuild the object so the edited entry keeps its position
+    onChange(Object.fromEntries(entries.map(([name, raw], i) => (i === index ? [nextName, nextRaw] : [name, raw]))))
+  }
+
+  const addEntry = () => {
+    let suffix = 1
+    while (names.includes(`value_${suffix}`)) suffix++
+    onChange({ ...taskValues, [`value_${suffix}`]: writeTaskValue({ name: `value_${suffix}`, type: 'str', default: getDefaultValueForType('str') }) })
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {entries.map(([name, raw], index) => {
+        const definition = readTaskValue(name, raw)
+        return (
+          <div
+            // Keyed by position - renaming must not remount the name input while typing
+            key={index}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '0.375rem',
+              padding: '0.5rem',
+              border: '1px solid rgba(148, 163, 184, 0.25)',
+              borderRadius: '4px',
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '0.375rem' }}>
+              <TaskValueNameInput
+                name={name}
+                existingNames={names}
+                onRename={(nextName) => updateEntry(index, nextName, raw)}
+              />
+              <select
+                value={TASK_VALUE_TYPES.includes(definition.type) ? definition.type : ''}
+                onChange={(e) => {
+                  const type = e.target.value
+                  updateEntry(index, name, writeTaskValue({ ...definition, type, default: getDefaultForTypeChange(definition.default, type) }))
+                }}
+                style={{ ...fieldStyle, width: 'auto' }}
+              >
+                {!TASK_VALUE_TYPES.includes(definition.type) && <option value="">{definition.type}</option>}
+                {TASK_VALUE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(Object.fromEntries(entries.filter((_, i) => i !== index)))}
+                aria-label="Remove task value"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '0.25rem',
+                  border: 'none',
+                  background: 'transparent',
+                  color: 'rgba(148, 163, 184, 0.9)',
+                  cursor: 'pointer',
+                }}
+              >
+                <CloseIcon style={{ fontSize: 16 }} />
+              </button>
+            </div>
+            <div>
+              <div style={{ marginBottom: '0.25rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.75rem' }}>Default</div>
+              {renderParamInput(definition.type, definition.default, (value) =>
+                updateEntry(index, name, writeTaskValue({ ...definition, default: value }))
+              )}
+            </div>
+          </div>
+        )
+      })}
+      <div>
+        <button
+          type="button"
+          onClick={addEntry}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.25rem',
+            padding: '0.25rem 0.5rem',
+            border: '1px dashed rgba(148, 163, 184, 0.5)',
+            borderRadius: '4px',
+            background: 'transparent',
+            color: 'rgba(226, 232, 240, 0.9)',
+            fontSize: '0.75rem',
+            cursor: 'pointer',
+          }}
+        >
+          <AddIcon style={{ fontSize: 14 }} />
+          Add task value
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useRef, useState, type CSSProperties, type KeyboardEvent } from 'react'
+import { extractVariableReferences, type FlowVariable } from '../../utils/flowVariables'
+
+interface VariableTemplateInputProps {
+  value: string
+  onChange: (value: string) => void
+  variables: FlowVariable[]
+  // Templates are free text (textarea), expressions are single-line
+  multiline?: boolean
+  maxLength?: number
+}
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  fontSize: '0.875rem',
+  fontFamily: 'monospace',
+  boxSizing: 'border-box',
+}
+
+// `{{ partial` right before the caret - the part after the braces is the autocomplete query
+const getOpenReference = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = text.slice(0, caret).match(/\{\{\s*([\w.]*)$/)
+  if (!match || match.index === undefined) return null
+  return { start: match.index, query: match[1] }
+}
+
+/**
+ * Text input for expr/template params: `{{variable}}` references are autocompleted from the
+ * variables available to the node, and references to unknown variables are flagged inline.
+ */
+export default function VariableTemplateInput({ value, onChange, variables, multiline = false, maxLength }: VariableTemplateInputProps) {
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+  const [dismissed, setDismissed] = useState(false)
+
+  const openReference = caret !== null && !dismissed ? getOpenReference(value, caret) : null
+  const suggestions = openReference
+    ? variables.filter((variable) => variable.name.toLowerCase().startsWith(openReference.query.toLowerCase()))
+    : []
+  const undefinedNames = extractVariableReferences(value).filter((name) => !variables.some((variable) => variable.name === name))
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? null)
+  }
+
+  const insertVariable = (name: string) => {
+    if (!openReference || caret === null) return
+    const rest = value.slice(caret)
+    const closing = rest.trimStart().startsWith('}}') ? '' : '}}'
+    const nextValue = `${value.slice(0, openReference.start)}{{${name}${closing}${rest}`
+    const nextCaret = openReference.start + name.length + 4
+    onChange(nextValue)
+    setCaret(nextCaret)
+    // Restore the caret after React re-renders the controlled input
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      insertVariable(suggestions[Math.min(highlighted, suggestions.length - 1)].name)
+    } else if (e.key === 'Escape') {
+      e.stopPropagation()
+      setDismissed(true)
+    }
+  }
+
+  const sharedProps = {
+    ref: inputRef,
+    value,
+    maxLength,
+    placeholder: 'Type {{ to insert a variable',
+    onChange: (e: { target: { value: string; selectionStart: number | null } }) => {
+      onChange(e.target.value)
+      setCaret(e.target.selectionStart)
+      setHighlighted(0)
+      setDismissed(false)
+    },
+    onKeyDown: handleKeyDown,
+    onKeyUp: updateCaret,
+    onClick: updateCaret,
+    // Delay so a click on a suggestion is handled before the list disappears
+    onBlur: () => setTimeout(() => setCaret(null), 150),
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      {multiline ? (
+        <textarea {...sharedProps} style={{ ...fieldStyle, minHeight: '60px', resize: 'vertical' }} />
+      ) : (
+        <input type="text" {...sharedProps} style={fieldStyle} />
+      )}
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            top: '100%',
+            zIndex: 10,
+            margin: '0.125rem 0 0',
+            padding: '0.25rem 0',
+            listStyle: 'none',
+            maxHeight: '160px',
+            overflowY: 'auto',
+            border: '1px solid rgba(148, 163, 184, 0.5)',
+            borderRadius: '4px',
+            background: 'rgba(15, 23, 42, 0.98)',
+          }}
+        >
+          {suggestions.map((variable, index) => (
+            <li
+              key={variable.name}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault()
+                insertVariable(variable.name)
+              }}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '0.5rem',
+                padding: '0.25rem 0.5rem',
+                cursor: 'pointer',
+                fontSize: '0.8125rem',
+                color: '#e5e7eb',
+                background: index === highlighted ? 'rgba(96, 165, 250, 0.25)' : 'transparent',
+              }}
+            >
+              <span style={{ fontFamily: 'monospace' }}>{variable.name}</span>
+              <span style={{ color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.75rem' }}>
+                {variable.source === 'task_value' ? 'task value' : variable.nodeId}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {undefinedNames.length > 0 && (
+        <div style={{ marginTop: '0.25rem', color: '#fbbf24', fontSize: '0.75rem' }}>
+          Undefined variable{undefinedNames.length === 1 ? '' : 's'}: {undefinedNames.join(', ')}
+        </div>
+      )}
+    </div>
+  )
+}
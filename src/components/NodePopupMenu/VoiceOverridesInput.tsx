@@ -0,0 +1,150 @@
+import type { CSSProperties } from 'react'
+import {
+  VOICE_OVERRIDES_PARAM,
+  VOICE_OVERRIDE_SETTINGS,
+  formatVoiceSetting,
+  getEffectiveVoiceSetting,
+  getSettingValue,
+  setSettingValue,
+  type VoiceOverrideSetting,
+} from '../../utils/voiceOverrides'
+import { getTtsVoices } from '../../utils/voiceCatalog'
+import { useVoiceCatalog } from '../../hooks/useVoiceCatalog'
+
+interface VoiceOverridesInputProps {
+  // Current overrides (value of the voice_settings param)
+  value: unknown
+  onChange: (value: Record<string, unknown> | undefined) => void
+  // Flow-level voice settings (omnichannel_config.voice)
+  flowVoice?: Record<string, unknown>
+  language?: string
+}
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  padding: '0.375rem 0.5rem',
+  border: '1px solid rgba(148, 163, 184, 0.7)',
+  borderRadius: '4px',
+  background: 'rgba(15, 23, 42, 0.9)',
+  color: '#e5e7eb',
+  fontSize: '0.875rem',
+  boxSizing: 'border-box',
+}
+
+const parseRate = (rate: unknown): number => {
+  const match = typeof rate === 'string' ? rate.match(/(\d+)/) : null
+  const rateNumber = match ? Number(match[1]) : 100
+  return Math.min(150, Math.max(50, rateNumber || 100))
+}
+
+// Value an override starts with: the flow value, so switching the override on changes nothing yet
+const getInitialOverride = (setting: VoiceOverrideSetting, flowValue: unknown): unknown => {
+  if (flowValue !== undefined && flowValue !== '') return flowValue
+  if (setting.kind === 'rate') return '100%'
+  return setting.kind === 'milliseconds' ? 0 : ''
+}
+
+/**
+ * Voice settings block for modules with `voiceOverrides`: each flow-level setting can be overridden
+ * for this module, and the value the module runs with is shown next to it.
+ */
+export default function VoiceOverridesInput({ value, onChange, flowVoice, language = '' }: VoiceOverridesInputProps) {
+  const { catalog } = useVoiceCatalog()
+  const voiceIds = getTtsVoices(catalog, language).map((voice) => voice.id)
+
+  const updateSetting = (path: string[], settingValue: unknown) => {
+    const next = setSettingValue(value, path, settingValue)
+    onChange(Object.keys(next).length > 0 ? next : undefined)
+  }
+
+  const renderOverrideInput = (setting: VoiceOverrideSetting, override: unknown) => {
+    if (setting.kind === 'rate') {
+      const rate = parseRate(override)
+      return (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+          <input
+            type="range"
+            min={50}
+            max={150}
+            step={5}
+            value={rate}
+            onChange={(e) => updateSetting(setting.path, `${e.target.value}%`)}
+            style={{ flex: 1 }}
+          />
+          <span style={{ minWidth: '3rem', textAlign: 'right', fontSize: '0.8rem', color: '#e5e7eb' }}>{rate}%</span>
+        </div>
+      )
+    }
+    if (setting.kind === 'milliseconds') {
+      return (
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={typeof override === 'number' ? override : ''}
+          onChange={(e) => updateSetting(setting.path, e.target.value === '' ? 0 : Number(e.target.value))}
+          style={inputStyle}
+        />
+      )
+    }
+    return (
+      <>
+        <input
+          type="text"
+          list="voice-override-tts-voices"
+          value={typeof override === 'string' ? override : ''}
+          onChange={(e) => updateSetting(setting.path, e.target.value)}
+          style={inputStyle}
+        />
+        <datalist id="voice-override-tts-voices">
+          {voiceIds.map((id) => (
+            <option key={id} value={id} />
+          ))}
+        </datalist>
+      </>
+    )
+  }
+
+  return (
+    <div
+      data-param-name={VOICE_OVERRIDES_PARAM}
+      style={{
+        marginBottom: '0.75rem',
+        padding: '0.5rem',
+        border: '1px solid rgba(148, 163, 184, 0.25)',
+        borderRadius: '4px',
+      }}
+    >
+      <div style={{ marginBottom: '0.5rem', color: 'rgba(226, 232, 240, 0.9)', fontSize: '0.875rem', fontWeight: 500 }}>
+        Voice settings
+      </div>
+      {VOICE_OVERRIDE_SETTINGS.map((setting) => {
+        const override = getSettingValue(value, setting.path)
+        const isOverridden = override !== undefined
+        const flowValue = getSettingValue(flowVoice, setting.path)
+        const effective = getEffectiveVoiceSetting(value, flowVoice, setting.path)
+
+        return (
+          <div key={setting.path.join('.')} style={{ marginBottom: '0.5rem' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', color: 'rgba(226, 232, 240, 0.9)', fontSize: '0.8125rem' }}>
+              <input
+                type="checkbox"
+                checked={isOverridden}
+                onChange={(e) =>
+                  updateSetting(setting.path, e.target.checked ? getInitialOverride(setting, flowValue) : undefined)
+                }
+              />
+              {setting.label}
+            </label>
+            {isOverridden && <div style={{ marginTop: '0.25rem' }}>{renderOverrideInput(setting, override)}</div>}
+            <div style={{ marginTop: '0.25rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.75rem' }}>
+              {effective.source === 'override'
+                ? `Override: ${formatVoiceSetting(setting, effective.value)} (flow: ${formatVoiceSetting(setting, flowValue)})`
+                : `Flow default: ${formatVoiceSetting(setting, flowValue)}`}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
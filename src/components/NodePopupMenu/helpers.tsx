@@ -1,30 +1,68 @@
+import type { Param } from '../../modules'
 import { parseType, displayType } from '../../utils/nodeUtils'
+import { parseTypeTree } from '../../utils/paramTypeCheck'
+import type { FlowVariable } from '../../utils/flowVariables'
+import StructuredParamInput from './StructuredParamInput'
+import VariableTemplateInput from './VariableTemplateInput'
+import NumberParamInput from './NumberParamInput'
+
+// Constraints that change how an input is rendered, plus the variables offered in expr/template params
+export type ParamInputOptions = Pick<Param, 'enum' | 'min' | 'max' | 'maxLength'> & {
+  variables?: FlowVariable[]
+}
 
 // Helper to render input field based on param type
 export const renderParamInput = (
   paramType: string | undefined,
   value: any,
-  onChange: (value: any) => void
+  onChange: (value: any) => void,
+  constraints: ParamInputOptions = {}
 ) => {
   const { base } = parseType(paramType)
 
+  // Allowed values are picked from a select (for lists, the values apply to the items)
+  if (constraints.enum && constraints.enum.length > 0 && base !== 'list' && base !== 'dict') {
+    const options = constraints.enum
+    const selectedIndex = options.findIndex((option) => option === value)
+    return (
+      <select
+        value={selectedIndex}
+        onChange={(e) => onChange(options[Number(e.target.value)])}
+        style={{
+          width: '100%',
+          padding: '0.5rem',
+          border: '1px solid rgba(148, 163, 184, 0.7)',
+          borderRadius: '4px',
+          background: 'rgba(15, 23, 42, 0.9)',
+          color: '#e5e7eb',
+          fontSize: '0.875rem',
+        }}
+      >
+        {selectedIndex === -1 && (
+          <option value={-1} disabled>
+            {value === undefined || value === null || value === '' ? 'Select a value...' : `${String(value)} (not allowed)`}
+          </option>
+        )}
+        {options.map((option, index) => (
+          <option key={index} value={index}>
+            {String(option)}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
   switch (base) {
     case 'number':
     case 'int':
     case 'float':
       return (
-        <input
-          type="number"
-          value={value ?? 0}
-          onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
-          style={{
-            width: '100%',
-            padding: '0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-          }}
+        <NumberParamInput
+          value={value}
+          integer={base === 'int'}
+          min={constraints.min}
+          max={constraints.max}
+          onChange={onChange}
         />
       )
     case 'boolean':
@@ -40,62 +78,25 @@ export const renderParamInput = (
           }}
         />
       )
-    case 'list':
+    case 'expr':
+    case 'template':
       return (
-        <textarea
-          value={Array.isArray(value) ? JSON.stringify(value, null, 2) : '[]'}
-          onChange={(e) => {
-            try {
-              const parsed = JSON.parse(e.target.value)
-              if (Array.isArray(parsed)) {
-                onChange(parsed)
-              }
-            } catch {
-              // Invalid JSON, ignore
-            }
-          }}
-          placeholder="Enter JSON array..."
-          style={{
-            width: '100%',
-            padding: '0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-            minHeight: '80px',
-            resize: 'vertical',
-            fontFamily: 'monospace',
-          }}
+        <VariableTemplateInput
+          value={typeof value === 'string' ? value : ''}
+          onChange={onChange}
+          variables={constraints.variables ?? []}
+          multiline={base === 'template'}
+          maxLength={constraints.maxLength}
         />
       )
+    case 'list':
     case 'dict':
       return (
-        <textarea
-          value={typeof value === 'object' && value !== null && !Array.isArray(value) ? JSON.stringify(value, null, 2) : '{}'}
-          onChange={(e) => {
-            try {
-              const parsed = JSON.parse(e.target.value)
-              if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
-                onChange(parsed)
-              }
-            } catch {
-              // Invalid JSON, ignore
-            }
-          }}
-          placeholder="Enter JSON object..."
-          style={{
-            width: '100%',
-            padding: '0.5rem',
-            border: '1px solid rgba(148, 163, 184, 0.7)',
-            borderRadius: '4px',
-            background: 'rgba(15, 23, 42, 0.9)',
-            color: '#e5e7eb',
-            fontSize: '0.875rem',
-            minHeight: '80px',
-            resize: 'vertical',
-            fontFamily: 'monospace',
-          }}
+        <StructuredParamInput
+          type={parseTypeTree(paramType)}
+          value={value}
+          onChange={onChange}
+          constraints={constraints}
         />
       )
     default:
@@ -103,6 +104,7 @@ export const renderParamInput = (
         <input
           type="text"
           value={value ?? ''}
+          maxLength={constraints.maxLength}
           onChange={(e) => onChange(e.target.value)}
           style={{
             width: '100%',
@@ -118,4 +120,14 @@ export const renderParamInput = (
   }
 }
 
+// Helper to render the help text of a param under its label
+export const renderParamHelp = (help: string | undefined) => {
+  if (!help) return null
+  return (
+    <div style={{ marginTop: '-0.125rem', marginBottom: '0.375rem', color: 'rgba(148, 163, 184, 0.8)', fontSize: '0.75rem' }}>
+      {help}
+    </div>
+  )
+}
+
 export { parseType, displayType }
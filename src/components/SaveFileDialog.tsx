@@ -0,0 +1,72 @@
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import CloseIcon from '@mui/icons-material/Close'
+import './FlowsDialog.css'
+import { FLOW_FILE_FORMAT_LABELS, type FlowFileFormat } from '../utils/flowFiles'
+
+interface SaveFileDialogProps {
+  initialFileName: string
+  initialFormat: FlowFileFormat
+  onSave: (fileName: string, format: FlowFileFormat) => void
+  onClose: () => void
+}
+
+/**
+ * Save As: file name and format of the flow file to download.
+ */
+export default function SaveFileDialog({ initialFileName, initialFormat, onSave, onClose }: SaveFileDialogProps) {
+  const [fileName, setFileName] = useState(initialFileName)
+  const [format, setFormat] = useState<FlowFileFormat>(initialFormat)
+
+  return createPortal(
+    <div className="flows-dialog-overlay" onClick={onClose}>
+      <form
+        className="flows-dialog-container flows-dialog-container--small"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault()
+          onSave(fileName, format)
+        }}
+      >
+        <div className="flows-dialog-header">
+          <h2>Save flow as</h2>
+          <button type="button" className="flows-dialog-icon-button" onClick={onClose} aria-label="Close">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="flows-dialog-content">
+          <div className="flows-dialog-create">
+            <input
+              type="text"
+              className="flows-dialog-input"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder="flow.json"
+              autoFocus
+            />
+          </div>
+          {(Object.keys(FLOW_FILE_FORMAT_LABELS) as FlowFileFormat[]).map((option) => (
+            <label key={option} className="flows-dialog-option">
+              <input type="radio" name="flow-file-format" checked={format === option} onChange={() => setFormat(option)} />
+              {FLOW_FILE_FORMAT_LABELS[option]}
+            </label>
+          ))}
+          {format === 'reactflow' && (
+            <div className="flows-dialog-detail">The ReactFlow format keeps node positions but not the flow settings.</div>
+          )}
+        </div>
+
+        <div className="flows-dialog-actions">
+          <button type="button" className="flows-dialog-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="flows-dialog-button flows-dialog-button--primary">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  )
+}
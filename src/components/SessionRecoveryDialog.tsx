@@ -0,0 +1,40 @@
+import { createPortal } from 'react-dom'
+import './FlowsDialog.css'
+import type { StoredFlowSummary } from '../utils/flowStorage'
+
+interface SessionRecoveryDialogProps {
+  flow: StoredFlowSummary
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+/**
+ * Shown on load when the previous session did not close cleanly (crash, killed tab).
+ */
+export default function SessionRecoveryDialog({ flow, onRestore, onDiscard }: SessionRecoveryDialogProps) {
+  return createPortal(
+    <div className="flows-dialog-overlay">
+      <div className="flows-dialog-container flows-dialog-container--small">
+        <div className="flows-dialog-header">
+          <h2>Restore last session?</h2>
+        </div>
+
+        <div className="flows-dialog-content">
+          The editor was not closed properly. The last autosave of <strong>{flow.name}</strong> is from{' '}
+          {new Date(flow.updatedAt).toLocaleString()}.
+          <div className="flows-dialog-detail">If you start fresh, the flow stays available under Flows.</div>
+        </div>
+
+        <div className="flows-dialog-actions">
+          <button type="button" className="flows-dialog-button" onClick={onDiscard}>
+            Start fresh
+          </button>
+          <button type="button" className="flows-dialog-button flows-dialog-button--primary" onClick={onRestore}>
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
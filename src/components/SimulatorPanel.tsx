@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { type Node } from 'reactflow'
+import CloseIcon from '@mui/icons-material/Close'
+import UndoIcon from '@mui/icons-material/Undo'
+import ReplayIcon from '@mui/icons-material/Replay'
+import './SimulatorPanel.css'
+import type { HandlerChoice, SimulationResult, SimulationStep } from '../utils/flowSimulator'
+
+interface SimulatorPanelProps {
+  nodes: Node[]
+  path: SimulationStep[]
+  choices: HandlerChoice[]
+  result: SimulationResult | null
+  onFireHandler: (handler: string) => void
+  onStepBack: () => void
+  onRestart: () => void
+  onClose: () => void
+  // Center a module of the path on the canvas
+  onStepClick: (moduleId: string) => void
+  // Save the path taken as a test scenario
+  onSaveScenario: (name: string) => void
+}
+
+/**
+ * Dry-run panel: shows the current module, the handlers it can fire and the path taken so far.
+ */
+export default function SimulatorPanel({
+  nodes,
+  path,
+  choices,
+  result,
+  onFireHandler,
+  onStepBack,
+  onRestart,
+  onClose,
+  onStepClick,
+  onSaveScenario,
+}: SimulatorPanelProps) {
+  const [scenarioName, setScenarioName] = useState('')
+
+  const getLabel = (moduleId: string): string => {
+    const node = nodes.find((n) => n.id === moduleId)
+    return node?.data?.label || moduleId
+  }
+  const current = path[path.length - 1]
+  const status = result?.status ?? 'running'
+
+  return (
+    <div className="simulator-panel">
+      <div className="simulator-panel-header">
+        <span className="simulator-panel-title">Simulator</span>
+        <button type="button" className="simulator-panel-icon-button" onClick={onStepBack} disabled={path.length <= 1} title="Step back">
+          <UndoIcon fontSize="small" />
+        </button>
+        <button type="button" className="simulator-panel-icon-button" onClick={onRestart} title="Restart from Start">
+          <ReplayIcon fontSize="small" />
+        </button>
+        <button type="button" className="simulator-panel-icon-button" onClick={onClose} title="Close simulator">
+          <CloseIcon fontSize="small" />
+        </button>
+      </div>
+
+      {current && (
+        <div className="simulator-panel-current">
+          <span className="simulator-panel-label">Current module</span>
+          <button type="button" className="simulator-panel-link" onClick={() => onStepClick(current.moduleId)}>
+            {getLabel(current.moduleId)}
+          </button>
+        </div>
+      )}
+
+      {result && <div className={`simulator-panel-status simulator-panel-status--${status}`}>{result.message}</div>}
+      {result?.warnings.map((warning) => (
+        <div key={warning} className="simulator-panel-warning">
+          {warning}
+        </div>
+      ))}
+
+      {status === 'running' && (
+        <div className="simulator-panel-choices">
+          {choices.map((choice) => (
+            <button
+              key={choice.handler}
+              type="button"
+              className="simulator-panel-choice"
+              disabled={!choice.connected}
+              onClick={() => onFireHandler(choice.handler)}
+              title={choice.connected ? `Go to ${getLabel(choice.target)}` : 'Handler is not connected'}
+            >
+              <span>{choice.label}</span>
+              <span className="simulator-panel-choice-target">
+                {choice.connected ? `→ ${getLabel(choice.target)}` : 'not connected'}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {path.length > 0 && (
+        <ol className="simulator-panel-path">
+          {path.map((step, index) => (
+            <li key={index}>
+              <button type="button" className="simulator-panel-link" onClick={() => onStepClick(step.moduleId)}>
+                {getLabel(step.moduleId)}
+              </button>
+              {step.handler && <span className="simulator-panel-path-handler">{step.handler}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {path.length > 1 && (
+        <form
+          className="simulator-panel-save"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (!scenarioName.trim()) return
+            onSaveScenario(scenarioName.trim())
+            setScenarioName('')
+          }}
+        >
+          <input
+            type="text"
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            placeholder="Scenario name"
+            className="simulator-panel-input"
+          />
+          <button type="submit" className="simulator-panel-choice" disabled={!scenarioName.trim()}>
+            Save as test
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, type MouseEvent as ReactMouseEvent } from 'react'
+import { useState, useEffect, useRef, type MouseEvent as ReactMouseEvent } from 'react'
 import NodeList from './NodeList'
 
 import { type Module } from '../modules'
@@ -11,6 +11,15 @@ import CodeIcon from '@mui/icons-material/Code'
 import AccountTreeIcon from '@mui/icons-material/AccountTree'
 import LabelIcon from '@mui/icons-material/Label'
 import CenterFocusStrongIcon from '@mui/icons-material/CenterFocusStrong'
+import ExtensionIcon from '@mui/icons-material/Extension'
+import PlayArrowIcon from '@mui/icons-material/PlayArrow'
+import FactCheckIcon from '@mui/icons-material/FactCheck'
+import FolderOpenIcon from '@mui/icons-material/FolderOpen'
+import FileOpenIcon from '@mui/icons-material/FileOpen'
+import SaveIcon from '@mui/icons-material/Save'
+import SaveAsIcon from '@mui/icons-material/SaveAs'
+import CloudSyncIcon from '@mui/icons-material/CloudSync'
+import DifferenceIcon from '@mui/icons-material/Difference'
 import Tooltip from '@mui/material/Tooltip'
 
 interface ToolbarProps {
@@ -31,6 +40,19 @@ interface ToolbarProps {
   onAutoLayout: () => void
   onOpenStickerMenu: () => void
   onFitView: () => void
+  onImportModulesFile: (file: File) => void
+  onOpenSimulator: () => void
+  onRunTestScenarios: () => void
+  // Diff the canvas against a flow file
+  onCompareWithFile: (file: File) => void
+  onOpenFlows: () => void
+  onOpenFile: (file: File) => void
+  onSaveFile: () => void
+  onSaveFileAs: () => void
+  onOpenBotSync: () => void
+  // File the flow was opened from / saved to, and whether it has unsaved changes
+  fileName: string | null
+  isDirty: boolean
 }
 
 export default function Toolbar({
@@ -51,11 +73,25 @@ export default function Toolbar({
   onAutoLayout,
   onOpenStickerMenu,
   onFitView,
+  onImportModulesFile,
+  onOpenSimulator,
+  onRunTestScenarios,
+  onCompareWithFile,
+  onOpenFlows,
+  onOpenFile,
+  onSaveFile,
+  onSaveFileAs,
+  onOpenBotSync,
+  fileName,
+  isDirty,
 }: ToolbarProps) {
   const [toolbarPosition, setToolbarPosition] = useState({ x: 16, y: 16 })
   const [toolbarSize, setToolbarSize] = useState({ width: 240, height: 390 }) // 1.5x of 260, wider for 3x3 buttons
   const [isToolbarMinimized, setIsToolbarMinimized] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const moduleFileInputRef = useRef<HTMLInputElement>(null)
+  const flowFileInputRef = useRef<HTMLInputElement>(null)
+  const compareFileInputRef = useRef<HTMLInputElement>(null)
 
   // Filter modules based on search query (substring search, case-insensitive)
   const filteredModules = modules.filter((module) =>
@@ -196,7 +232,10 @@ export default function Toolbar({
       }}
     >
       <div className="nodes-toolbar-header" onMouseDown={onToolbarMouseDown}>
-        <span className="nodes-toolbar-title">Toolbar</span>
+        <span className="nodes-toolbar-title" title={isDirty ? 'Unsaved changes' : fileName ?? undefined}>
+          {fileName ?? 'Toolbar'}
+          {isDirty && <span className="nodes-toolbar-dirty"> •</span>}
+        </span>
         <button
           type="button"
           className="nodes-toolbar-toggle"
@@ -381,6 +420,161 @@ export default function Toolbar({
                   </span>
                 </Tooltip>
               </div>
+              {/* Line 4: module catalog import, simulator, test scenarios, diff */}
+              <div className="toolbar-nav-row toolbar-nav-row--secondary">
+                <Tooltip title="Import modules (JSON/YAML)" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={() => moduleFileInputRef.current?.click()}
+                      style={{ width: '100%' }}
+                    >
+                      <ExtensionIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <input
+                  ref={moduleFileInputRef}
+                  type="file"
+                  accept=".json,.yaml,.yml,application/json,application/x-yaml"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) onImportModulesFile(file)
+                    // Reset so the same file can be picked again
+                    e.target.value = ''
+                  }}
+                />
+                <Tooltip title={hasNodes ? 'Simulate flow' : 'Add nodes to simulate'} arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onOpenSimulator}
+                      disabled={!hasNodes}
+                      style={{
+                        opacity: hasNodes ? 1 : 0.5,
+                        cursor: hasNodes ? 'pointer' : 'not-allowed',
+                        width: '100%',
+                      }}
+                    >
+                      <PlayArrowIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Run test scenarios" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onRunTestScenarios}
+                      style={{ width: '100%' }}
+                    >
+                      <FactCheckIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Compare with flow file" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={() => compareFileInputRef.current?.click()}
+                      style={{ width: '100%' }}
+                    >
+                      <DifferenceIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <input
+                  ref={compareFileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) onCompareWithFile(file)
+                    // Reset so the same file can be picked again
+                    e.target.value = ''
+                  }}
+                />
+              </div>
+              {/* Line 5: saved flows, open/save flow files, bot versions */}
+              <div className="toolbar-nav-row toolbar-nav-row--secondary">
+                <Tooltip title="Flows" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onOpenFlows}
+                      style={{ width: '100%' }}
+                    >
+                      <FolderOpenIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Open flow file" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={() => flowFileInputRef.current?.click()}
+                      style={{ width: '100%' }}
+                    >
+                      <FileOpenIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <input
+                  ref={flowFileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) onOpenFile(file)
+                    // Reset so the same file can be picked again
+                    e.target.value = ''
+                  }}
+                />
+                <Tooltip title={isDirty ? 'Save flow file (unsaved changes)' : 'Save flow file'} arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onSaveFile}
+                      style={{ width: '100%' }}
+                    >
+                      <SaveIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Save flow file as" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onSaveFileAs}
+                      style={{ width: '100%' }}
+                    >
+                      <SaveAsIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Bot versions" arrow placement="top" disableInteractive>
+                  <span style={{ flex: 1 }}>
+                    <button
+                      type="button"
+                      className="toolbar-nav-button"
+                      onClick={onOpenBotSync}
+                      style={{ width: '100%' }}
+                    >
+                      <CloudSyncIcon fontSize="small" />
+                    </button>
+                  </span>
+                </Tooltip>
+              </div>
             </div>
           </section>
           <section className="nodes-toolbar-section" style={{ flex: 1, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
@@ -1,16 +1,28 @@
 import { useEffect, useState, useRef, useCallback } from 'react'
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
+import ExpandLessIcon from '@mui/icons-material/ExpandLess'
+import CloseIcon from '@mui/icons-material/Close'
 import './ValidationBanner.css'
+import type { ValidationIssue } from '../utils/graphValidation'
 
 interface ValidationBannerProps {
   isValid: boolean | null
   message: string
+  // When present, issues are listed in a collapsible panel instead of the message
+  issues?: ValidationIssue[]
+  onIssueClick?: (issue: ValidationIssue) => void
   onDismiss?: () => void
+  // Heading of the issue panel instead of the error/warning counts
+  summary?: string
 }
 
-export default function ValidationBanner({ isValid, message, onDismiss }: ValidationBannerProps) {
+export default function ValidationBanner({ isValid, message, issues, onIssueClick, onDismiss, summary: summaryOverride }: ValidationBannerProps) {
   const [isVisible, setIsVisible] = useState(false)
   const [shouldRender, setShouldRender] = useState(false)
+  const [isCollapsed, setIsCollapsed] = useState(false)
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Issue panels stay open until dismissed so issues can be clicked
+  const hasIssues = !!issues && issues.length > 0
 
   const handleDismiss = useCallback(() => {
     setIsVisible(false)
@@ -52,8 +64,12 @@ export default function ValidationBanner({ isValid, message, onDismiss }: Valida
         })
       })
 
-      // Start the timeout
-      startTimeout()
+      // Start the timeout (issue panels stay until dismissed)
+      if (!hasIssues) {
+        startTimeout()
+      } else {
+        setIsCollapsed(false)
+      }
 
       return () => {
         if (timeoutRef.current) {
@@ -63,12 +79,65 @@ export default function ValidationBanner({ isValid, message, onDismiss }: Valida
     } else {
       handleDismiss()
     }
-  }, [isValid, message, startTimeout, handleDismiss])
+  }, [isValid, message, hasIssues, startTimeout, handleDismiss])
 
   if (!shouldRender || isValid === null) {
     return null
   }
 
+  if (hasIssues) {
+    const errorCount = issues.filter((issue) => issue.severity === 'error').length
+    const warningCount = issues.length - errorCount
+    const summary = summaryOverride ?? [
+      errorCount > 0 ? `${errorCount} error${errorCount === 1 ? '' : 's'}` : '',
+      warningCount > 0 ? `${warningCount} warning${warningCount === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join(', ')
+
+    return (
+      <div
+        className={`validation-banner validation-banner--panel validation-banner--${isValid === false ? 'invalid' : 'warning'} ${isVisible ? 'validation-banner--visible' : 'validation-banner--hidden'}`}
+      >
+        <div className="validation-banner-panel-header" onClick={() => setIsCollapsed((prev) => !prev)}>
+          <span className="validation-banner-icon">{isValid === false ? '✗' : '!'}</span>
+          <span className="validation-banner-panel-summary">{summary}</span>
+          <button
+            type="button"
+            className="validation-banner-panel-button"
+            aria-label={isCollapsed ? 'Expand issues' : 'Collapse issues'}
+          >
+            {isCollapsed ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+          </button>
+          <button
+            type="button"
+            className="validation-banner-panel-button"
+            aria-label="Dismiss"
+            onClick={(e) => {
+              e.stopPropagation()
+              handleDismiss()
+            }}
+          >
+            <CloseIcon fontSize="small" />
+          </button>
+        </div>
+        {!isCollapsed && (
+          <ul className="validation-banner-issues">
+            {issues.map((issue, index) => (
+              <li
+                key={`${issue.ruleId}-${issue.nodeId ?? ''}-${issue.paramName ?? ''}-${index}`}
+                className={`validation-banner-issue validation-banner-issue--${issue.severity} ${issue.nodeId ? 'validation-banner-issue--clickable' : ''}`}
+                onClick={issue.nodeId && onIssueClick ? () => onIssueClick(issue) : undefined}
+                title={issue.nodeId ? 'Show in flow' : undefined}
+              >
+                <span className="validation-banner-issue-severity">{issue.severity}</span>
+                <span className="validation-banner-issue-message">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )
+  }
+
   // Split message by '; ' to create bullet points
   const messageItems = message.split('; ').filter(item => item.trim().length > 0)
 
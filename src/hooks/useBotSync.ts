@@ -0,0 +1,192 @@
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { exportFlowToJson } from '../utils/exportHelpers'
+import { formatMigrationReport } from '../utils/moduleMigrations'
+import {
+  getPreservedBackendFields,
+  translateCustomToReactFlow,
+  translateReactFlowToCustom,
+  type CustomFlowMetadata,
+  type ReactFlowJson,
+} from '../utils/translationHelpers'
+import {
+  getBotSyncAdapter,
+  getFlowBotId,
+  saveBotVersion,
+  type BotSyncAdapter,
+  type BotVersionSummary,
+} from '../utils/botSync'
+import type { ValidationStatus } from './useValidation'
+
+export interface BotSyncState {
+  isBotSyncOpen: boolean
+  // Label of the API the adapter talks to (URL or mock server)
+  adapterLabel: string
+  botId: string
+  versions: BotVersionSummary[]
+  isBusy: boolean
+  error: string | null
+  // Remote current version that blocked the last save
+  conflict: BotVersionSummary | null
+}
+
+export interface BotSyncActions {
+  handleOpenBotSync: () => void
+  handleCloseBotSync: () => void
+  handleBotIdChange: (botId: string) => void
+  handleRefreshVersions: () => void
+  handleLoadVersion: (versionId: string) => void
+  // Diff the canvas against a version
+  handleCompareVersion: (versionId: string) => void
+  // force skips the conflict check (overwrite the remote changes with a newer version)
+  handleSaveVersion: (force?: boolean) => void
+}
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : 'Unknown error')
+
+export function useBotSync(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata,
+  setFlowMetadata: Dispatch<SetStateAction<CustomFlowMetadata>>,
+  // Replace the canvas with a loaded version
+  loadFlowData: (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, name: string) => void,
+  compareFlowData: (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, label: string) => void,
+  setValidationStatus: (status: ValidationStatus) => void,
+  adapter: BotSyncAdapter = getBotSyncAdapter()
+): BotSyncState & BotSyncActions {
+  const [isBotSyncOpen, setIsBotSyncOpen] = useState(false)
+  const [botId, setBotId] = useState('')
+  const [versions, setVersions] = useState<BotVersionSummary[]>([])
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<BotVersionSummary | null>(null)
+
+  // Marks the dialog busy while a request runs; failures end up in `error`
+  const runRequest = useCallback(async <T>(request: () => Promise<T>): Promise<T | undefined> => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      return await request()
+    } catch (requestError) {
+      setError(getErrorMessage(requestError))
+      return undefined
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const refreshVersions = useCallback(
+    (id: string) => {
+      setConflict(null)
+      if (!id) {
+        setVersions([])
+        return
+      }
+      runRequest(() => adapter.listVersions(id)).then((list) => setVersions(list ?? []))
+    },
+    [adapter, runRequest]
+  )
+
+  const handleOpenBotSync = useCallback(() => {
+    const flowBotId = getFlowBotId(flowMetadata)
+    const id = flowBotId || botId
+    setBotId(id)
+    setIsBotSyncOpen(true)
+    refreshVersions(id)
+  }, [flowMetadata, botId, refreshVersions])
+
+  const handleCloseBotSync = useCallback(() => {
+    setIsBotSyncOpen(false)
+    setConflict(null)
+    setError(null)
+  }, [])
+
+  const handleBotIdChange = useCallback((id: string) => {
+    setBotId(id)
+    setVersions([])
+    setConflict(null)
+  }, [])
+
+  const handleRefreshVersions = useCallback(() => {
+    refreshVersions(botId.trim())
+  }, [botId, refreshVersions])
+
+  const handleLoadVersion = useCallback(
+    (versionId: string) => {
+      const id = botId.trim()
+      runRequest(() => adapter.loadVersion(id, versionId)).then((customData) => {
+        if (!customData) return
+        const { reactFlowData, metadata, migrationReport } = translateCustomToReactFlow(customData)
+        loadFlowData(reactFlowData, metadata, `${id} ${customData.current_bot_version.name || versionId}`)
+        setIsBotSyncOpen(false)
+        setConflict(null)
+        setValidationStatus({
+          isValid: true,
+          message:
+            migrationReport.length > 0
+              ? `Loaded version ${versionId} of bot ${id}. Migrated ${migrationReport.length} module(s):\n${formatMigrationReport(migrationReport)}`
+              : `Loaded version ${versionId} of bot ${id}`,
+        })
+      })
+    },
+    [adapter, botId, runRequest, loadFlowData, setValidationStatus]
+  )
+
+  const handleCompareVersion = useCallback(
+    (versionId: string) => {
+      const id = botId.trim()
+      runRequest(() => adapter.loadVersion(id, versionId)).then((customData) => {
+        if (!customData) return
+        const { reactFlowData, metadata } = translateCustomToReactFlow(customData)
+        compareFlowData(reactFlowData, metadata, `${customData.current_bot_version.name || versionId} (${versionId})`)
+        setIsBotSyncOpen(false)
+      })
+    },
+    [adapter, botId, runRequest, compareFlowData]
+  )
+
+  const handleSaveVersion = useCallback(
+    (force = false) => {
+      const id = botId.trim()
+      if (!id) {
+        setError('Enter the bot ID to save to')
+        return
+      }
+      const flow = translateReactFlowToCustom(exportFlowToJson(nodes, edges), flowMetadata)
+      runRequest(() => saveBotVersion(adapter, id, flow, force)).then((result) => {
+        if (!result) return
+        if (result.status === 'conflict') {
+          setConflict(result.remote)
+          return
+        }
+        // The flow now tracks the new version (ids, updated_at) so the next save is checked against it
+        setFlowMetadata((prev) => ({ ...prev, preserved: getPreservedBackendFields(result.flow) }))
+        setConflict(null)
+        setValidationStatus({
+          isValid: true,
+          message: `Saved version ${result.flow.current_bot_version.id} of bot ${id}`,
+        })
+        refreshVersions(id)
+      })
+    },
+    [adapter, botId, nodes, edges, flowMetadata, runRequest, setFlowMetadata, setValidationStatus, refreshVersions]
+  )
+
+  return {
+    isBotSyncOpen,
+    adapterLabel: adapter.label,
+    botId,
+    versions,
+    isBusy,
+    error,
+    conflict,
+    handleOpenBotSync,
+    handleCloseBotSync,
+    handleBotIdChange,
+    handleRefreshVersions,
+    handleLoadVersion,
+    handleCompareVersion,
+    handleSaveVersion,
+  }
+}
@@ -1,6 +1,6 @@
 import { useCallback } from 'react'
 import type { Node } from 'reactflow'
-import modules from '../modules'
+import { moduleRegistry } from '../modules'
 import nodeConfigs, { type NodeType, isBranchingOutputNodeType, canOutputNodeBeDeleted } from '../nodeConfigs'
 import { getBranchingLayoutConstants, calculateOutputNodePosition } from '../utils/branchingNodeHelpers'
 import { createNodeFromConfig } from '../utils/nodeCreation'
@@ -33,7 +33,7 @@ export function useBranchingOperations(
         const branchingNode = nds.find((n) => n.id === parentId)
         if (!branchingNode) return nds
 
-        const module = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+        const module = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
         if (!module?.outputConfig || module.outputConfig.type !== 'listParam') return nds
 
         // Get all output nodes to calculate bounds
@@ -121,7 +121,7 @@ export function useBranchingOperations(
         const branchingNode = nds.find((n) => n.id === parentId)
         if (!branchingNode) return nds
 
-        const module = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+        const module = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
         if (!module?.outputConfig || module.outputConfig.type !== 'listParam') return nds
 
         // Get all output nodes for this parent
@@ -219,7 +219,7 @@ export function useBranchingOperations(
         const branchingNode = nds.find((n) => n.id === nodeId)
         if (!branchingNode) return nds
 
-        const module = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+        const module = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
         if (!module?.outputConfig || module.outputConfig.type !== 'listParam') {
           return nds
         }
@@ -0,0 +1,98 @@
+import { useCallback, useMemo, useState } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { parseFlowFile } from '../utils/flowFiles'
+import type { CustomFlowMetadata, DialogConfig, ReactFlowJson } from '../utils/translationHelpers'
+import {
+  buildDiffDialog,
+  diffDialogs,
+  getFlowDiffHighlights,
+  type FlowDiff,
+  type FlowDiffHighlights,
+} from '../utils/flowDiff'
+import type { ValidationStatus } from './useValidation'
+
+export interface FlowDiffState {
+  isDiffOpen: boolean
+  // What the canvas is compared with (file name, bot version, ...)
+  baseLabel: string
+  baseDialog: DialogConfig | null
+  diff: FlowDiff | null
+  // Canvas colors, empty while the diff is closed
+  highlights: FlowDiffHighlights
+}
+
+export interface FlowDiffActions {
+  handleCompareWithFile: (file: File) => void
+  // Compare the canvas with a flow loaded elsewhere (e.g. a bot version)
+  compareWithFlow: (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, label: string) => void
+  handleCloseDiff: () => void
+}
+
+const EMPTY_HIGHLIGHTS: FlowDiffHighlights = { nodes: new Map(), edges: new Map(), removedNodes: [], removedEdges: [] }
+
+export function useFlowDiff(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata,
+  setValidationStatus: (status: ValidationStatus) => void
+): FlowDiffState & FlowDiffActions {
+  // nodes: the base flow on a canvas, for the positions of removed modules
+  const [base, setBase] = useState<{ label: string; dialog: DialogConfig; nodes: Node[] } | null>(null)
+
+  // The canvas side is rebuilt while the flow is edited, so the diff stays live
+  const currentDialog = useMemo(
+    () => (base ? buildDiffDialog(nodes, edges, flowMetadata) : null),
+    [base, nodes, edges, flowMetadata]
+  )
+  const diff = useMemo(
+    () => (base && currentDialog ? diffDialogs(base.dialog, currentDialog) : null),
+    [base, currentDialog]
+  )
+  const highlights = useMemo(
+    () =>
+      base && currentDialog && diff
+        ? getFlowDiffHighlights(diff, base.dialog, currentDialog, nodes, edges, base.nodes)
+        : EMPTY_HIGHLIGHTS,
+    [base, currentDialog, diff, nodes, edges]
+  )
+
+  const compareWithFlow = useCallback(
+    (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, label: string) => {
+      const baseNodes = reactFlowData.nodes as Node[]
+      setBase({ label, dialog: buildDiffDialog(baseNodes, reactFlowData.edges as Edge[], metadata), nodes: baseNodes })
+    },
+    []
+  )
+
+  const handleCompareWithFile = useCallback(
+    (file: File) => {
+      file.text().then((text) => {
+        try {
+          const { reactFlowData, metadata } = parseFlowFile(text)
+          compareWithFlow(reactFlowData, metadata, file.name)
+        } catch (error) {
+          setValidationStatus({
+            isValid: false,
+            message: `Could not compare with ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          })
+        }
+      })
+    },
+    [compareWithFlow, setValidationStatus]
+  )
+
+  const handleCloseDiff = useCallback(() => {
+    setBase(null)
+  }, [])
+
+  return {
+    isDiffOpen: base !== null,
+    baseLabel: base?.label ?? '',
+    baseDialog: base?.dialog ?? null,
+    diff,
+    highlights,
+    handleCompareWithFile,
+    compareWithFlow,
+    handleCloseDiff,
+  }
+}
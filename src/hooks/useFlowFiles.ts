@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { isStartNode } from '../utils/moduleHelpers'
+import { formatMigrationReport } from '../utils/moduleMigrations'
+import type { CustomFlowMetadata, ReactFlowJson } from '../utils/translationHelpers'
+import {
+  downloadTextFile,
+  ensureJsonExtension,
+  getFlowFileSnapshot,
+  parseFlowFile,
+  serializeFlowFile,
+  type FlowFileFormat,
+} from '../utils/flowFiles'
+import type { ValidationStatus } from './useValidation'
+
+export interface FlowFileState {
+  // File the flow was last opened from or saved to
+  fileName: string | null
+  fileFormat: FlowFileFormat
+  // Changes since the last open/save (any content counts while there is no file)
+  isDirty: boolean
+  isSaveAsOpen: boolean
+}
+
+export interface FlowFileActions {
+  handleOpenFile: (file: File) => void
+  handleSaveFile: () => void
+  handleOpenSaveAs: () => void
+  handleCloseSaveAs: () => void
+  handleSaveFileAs: (fileName: string, format: FlowFileFormat) => void
+  // Canvas drop handler: opens a dropped .json file, anything else goes to onOtherDrop
+  handleFileDrop: (event: React.DragEvent, onOtherDrop: (event: React.DragEvent) => void) => void
+}
+
+// Comparing with the saved file exports the whole flow, so it waits for edits (and drags) to settle
+const DIRTY_CHECK_DELAY = 300
+
+const getDroppedJsonFile = (event: React.DragEvent): File | undefined => {
+  return Array.from(event.dataTransfer.files).find(
+    (file) => file.type === 'application/json' || /\.json$/i.test(file.name)
+  )
+}
+
+export function useFlowFiles(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata,
+  // Replace the canvas with an opened file
+  loadFlowData: (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata, fileName: string) => void,
+  setValidationStatus: (status: ValidationStatus) => void
+): FlowFileState & FlowFileActions {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [fileFormat, setFileFormat] = useState<FlowFileFormat>('custom')
+  const [savedSnapshot, setSavedSnapshot] = useState<string | null>(null)
+  const [isSaveAsOpen, setIsSaveAsOpen] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+
+  useEffect(() => {
+    if (savedSnapshot === null) {
+      setIsDirty(nodes.some((node) => !isStartNode(node)))
+      return
+    }
+    const timeout = window.setTimeout(() => {
+      setIsDirty(getFlowFileSnapshot(nodes, edges, flowMetadata) !== savedSnapshot)
+    }, DIRTY_CHECK_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [nodes, edges, flowMetadata, savedSnapshot])
+
+  const handleOpenFile = useCallback(
+    (file: File) => {
+      file.text().then((text) => {
+        try {
+          const { format, reactFlowData, metadata, migrationReport } = parseFlowFile(text)
+          loadFlowData(reactFlowData, metadata, file.name)
+          setFileName(file.name)
+          setFileFormat(format)
+          setSavedSnapshot(getFlowFileSnapshot(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[], metadata))
+          setIsDirty(false)
+          if (migrationReport.length > 0) {
+            setValidationStatus({
+              isValid: true,
+              message: `Opened ${file.name}. Migrated ${migrationReport.length} module(s):\n${formatMigrationReport(migrationReport)}`,
+            })
+          }
+        } catch (error) {
+          setValidationStatus({
+            isValid: false,
+            message: `Could not open ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          })
+        }
+      })
+    },
+    [loadFlowData, setValidationStatus]
+  )
+
+  const writeFile = useCallback(
+    (name: string, format: FlowFileFormat) => {
+      downloadTextFile(name, serializeFlowFile(format, nodes, edges, flowMetadata))
+      setFileName(name)
+      setFileFormat(format)
+      setSavedSnapshot(getFlowFileSnapshot(nodes, edges, flowMetadata))
+      setIsDirty(false)
+    },
+    [nodes, edges, flowMetadata]
+  )
+
+  const handleOpenSaveAs = useCallback(() => {
+    setIsSaveAsOpen(true)
+  }, [])
+
+  const handleCloseSaveAs = useCallback(() => {
+    setIsSaveAsOpen(false)
+  }, [])
+
+  const handleSaveFile = useCallback(() => {
+    if (fileName) {
+      writeFile(fileName, fileFormat)
+    } else {
+      setIsSaveAsOpen(true)
+    }
+  }, [fileName, fileFormat, writeFile])
+
+  const handleSaveFileAs = useCallback(
+    (name: string, format: FlowFileFormat) => {
+      writeFile(ensureJsonExtension(name), format)
+      setIsSaveAsOpen(false)
+    },
+    [writeFile]
+  )
+
+  const handleFileDrop = useCallback(
+    (event: React.DragEvent, onOtherDrop: (event: React.DragEvent) => void) => {
+      const file = getDroppedJsonFile(event)
+      if (!file) {
+        onOtherDrop(event)
+        return
+      }
+      event.preventDefault()
+      handleOpenFile(file)
+    },
+    [handleOpenFile]
+  )
+
+  return {
+    fileName,
+    fileFormat,
+    isDirty,
+    isSaveAsOpen,
+    handleOpenFile,
+    handleSaveFile,
+    handleOpenSaveAs,
+    handleCloseSaveAs,
+    handleSaveFileAs,
+    handleFileDrop,
+  }
+}
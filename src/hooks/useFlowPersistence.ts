@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { type NodeType } from '../nodeConfigs'
+import { createNodeFromConfig } from '../utils/nodeCreation'
+import { getStartModule, isStartNode } from '../utils/moduleHelpers'
+import { createEmptyFlowMetadata, type CustomFlowMetadata } from '../utils/translationHelpers'
+import {
+  createFlowId,
+  createStoredFlow,
+  deleteStoredFlow,
+  getStoredFlowContent,
+  isFlowStorageAvailable,
+  listStoredFlows,
+  loadStoredFlow,
+  readFlowSession,
+  saveStoredFlow,
+  writeFlowSession,
+  type StoredFlow,
+  type StoredFlowSummary,
+} from '../utils/flowStorage'
+
+// Delay between the last edit and the autosave
+const AUTOSAVE_DELAY = 1000
+const DEFAULT_FLOW_NAME = 'Untitled flow'
+
+export interface FlowPersistenceState {
+  flows: StoredFlowSummary[]
+  activeFlowId: string | null
+  isFlowsDialogOpen: boolean
+  // Flow left open by a session that did not close cleanly, waiting for the user to restore or discard it
+  recoverableFlow: StoredFlowSummary | null
+  storageError: string | null
+}
+
+export interface FlowPersistenceActions {
+  handleOpenFlowsDialog: () => void
+  handleCloseFlowsDialog: () => void
+  handleCreateFlow: (name: string) => void
+  handleOpenFlow: (id: string) => void
+  handleRenameFlow: (id: string, name: string) => void
+  handleDuplicateFlow: (id: string) => void
+  handleDeleteFlow: (id: string) => void
+  handleRestoreSession: () => void
+  handleDiscardSession: () => void
+  // Save the current flow and autosave whatever the canvas shows next as a new flow
+  startNewFlow: (name: string) => Promise<void>
+}
+
+// What the canvas shows of a stored flow
+export type FlowContent = Pick<StoredFlow, 'nodes' | 'edges' | 'metadata'>
+
+const getErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : 'Unknown storage error'
+}
+
+// Canvas of a new flow: just the Start node, like a fresh editor
+const createEmptyCanvas = (): Node[] => {
+  const startModule = getStartModule()
+  if (!startModule) return []
+  return [
+    createNodeFromConfig(startModule.type as NodeType, { x: 0, y: 0 }, {
+      moduleName: startModule.name,
+      connectingFrom: null,
+    }),
+  ]
+}
+
+const toSummary = (flow: StoredFlow): StoredFlowSummary => ({
+  id: flow.id,
+  name: flow.name,
+  updatedAt: flow.updatedAt,
+  nodeCount: flow.nodes.length,
+})
+
+/**
+ * Autosave of the current flow to IndexedDB, the named flows list and recovery of a session that
+ * did not close cleanly. applyFlow replaces the canvas and flow metadata with a stored flow.
+ */
+export function useFlowPersistence(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata,
+  applyFlow: (flow: FlowContent) => void
+): FlowPersistenceState & FlowPersistenceActions {
+  const [flows, setFlows] = useState<StoredFlowSummary[]>([])
+  const [activeFlowId, setActiveFlowId] = useState<string | null>(null)
+  const [isFlowsDialogOpen, setIsFlowsDialogOpen] = useState(false)
+  const [recoverableFlow, setRecoverableFlow] = useState<StoredFlowSummary | null>(null)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  // Autosave is paused until the previous session has been restored or discarded
+  const [isReady, setIsReady] = useState(false)
+
+  // Refs so the unload handler and async callbacks see the latest state
+  const latestRef = useRef({ nodes, edges, flowMetadata })
+  latestRef.current = { nodes, edges, flowMetadata }
+  const applyFlowRef = useRef(applyFlow)
+  applyFlowRef.current = applyFlow
+  const activeFlowRef = useRef<{ id: string; name: string } | null>(null)
+  const lastSavedContentRef = useRef<string | null>(null)
+
+  const refreshFlows = useCallback(() => {
+    return listStoredFlows()
+      .then(setFlows)
+      .catch((error) => setStorageError(getErrorMessage(error)))
+  }, [])
+
+  const setActiveFlow = useCallback((flow: { id: string; name: string } | null) => {
+    activeFlowRef.current = flow ? { id: flow.id, name: flow.name } : null
+    setActiveFlowId(flow?.id ?? null)
+    writeFlowSession(flow ? { flowId: flow.id, closedCleanly: false } : null)
+  }, [])
+
+  // Show a stored flow on the canvas and make it the autosave target
+  const openFlow = useCallback(
+    (flow: StoredFlow) => {
+      applyFlowRef.current(flow)
+      lastSavedContentRef.current = getStoredFlowContent(flow)
+      setActiveFlow(flow)
+    },
+    [setActiveFlow]
+  )
+
+  // Save the canvas to the active flow; a canvas with more than the Start node becomes a new flow
+  const persistCurrent = useCallback(async (): Promise<void> => {
+    const { nodes: currentNodes, edges: currentEdges, flowMetadata: metadata } = latestRef.current
+    const active = activeFlowRef.current
+    if (!active && !currentNodes.some((node) => !isStartNode(node))) return
+
+    const target = active ?? { id: createFlowId(), name: metadata.name || DEFAULT_FLOW_NAME }
+    const flow = createStoredFlow(target.id, target.name, currentNodes, currentEdges, metadata)
+    const content = getStoredFlowContent(flow)
+    if (active && content === lastSavedContentRef.current) return
+
+    lastSavedContentRef.current = content
+    if (!active) setActiveFlow(target)
+    await saveStoredFlow(flow)
+  }, [setActiveFlow])
+
+  // Reopen the flow of the previous session, or offer to recover it when the editor crashed
+  useEffect(() => {
+    if (!isFlowStorageAvailable()) {
+      setStorageError('IndexedDB is not available - flows are not saved')
+      return
+    }
+    refreshFlows()
+    const session = readFlowSession()
+    if (!session) {
+      setIsReady(true)
+      return
+    }
+    loadStoredFlow(session.flowId)
+      .then((flow) => {
+        if (!flow) {
+          writeFlowSession(null)
+        } else if (session.closedCleanly) {
+          openFlow(flow)
+        } else {
+          setRecoverableFlow(toSummary(flow))
+          return
+        }
+        setIsReady(true)
+      })
+      .catch((error) => {
+        setStorageError(getErrorMessage(error))
+        setIsReady(true)
+      })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Autosave shortly after the last edit
+  useEffect(() => {
+    if (!isReady) return
+    const timeout = window.setTimeout(() => {
+      persistCurrent()
+        .then(refreshFlows)
+        .catch((error) => setStorageError(getErrorMessage(error)))
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [isReady, nodes, edges, flowMetadata, persistCurrent, refreshFlows])
+
+  // Closing the page: save pending edits and mark the session as closed cleanly
+  // (a page restored from the back/forward cache is open again)
+  useEffect(() => {
+    if (!isReady) return
+    const handlePageHide = () => {
+      persistCurrent().catch(() => undefined)
+      const active = activeFlowRef.current
+      if (active) writeFlowSession({ flowId: active.id, closedCleanly: true })
+    }
+    const handlePageShow = () => {
+      const active = activeFlowRef.current
+      if (active) writeFlowSession({ flowId: active.id, closedCleanly: false })
+    }
+    window.addEventListener('pagehide', handlePageHide)
+    window.addEventListener('pageshow', handlePageShow)
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide)
+      window.removeEventListener('pageshow', handlePageShow)
+    }
+  }, [isReady, persistCurrent])
+
+  // Run a storage operation, report its failure in the dialog and refresh the list
+  const runStorageAction = useCallback(
+    (action: () => Promise<void>) => {
+      setStorageError(null)
+      action()
+        .catch((error) => setStorageError(getErrorMessage(error)))
+        .finally(refreshFlows)
+    },
+    [refreshFlows]
+  )
+
+  const handleOpenFlowsDialog = useCallback(() => {
+    setIsFlowsDialogOpen(true)
+    refreshFlows()
+  }, [refreshFlows])
+
+  const handleCloseFlowsDialog = useCallback(() => {
+    setIsFlowsDialogOpen(false)
+  }, [])
+
+  const handleCreateFlow = useCallback(
+    (name: string) => {
+      runStorageAction(async () => {
+        await persistCurrent()
+        const flow = createStoredFlow(createFlowId(), name.trim() || DEFAULT_FLOW_NAME, createEmptyCanvas(), [], createEmptyFlowMetadata())
+        await saveStoredFlow(flow)
+        openFlow(flow)
+      })
+    },
+    [runStorageAction, persistCurrent, openFlow]
+  )
+
+  const handleOpenFlow = useCallback(
+    (id: string) => {
+      runStorageAction(async () => {
+        await persistCurrent()
+        const flow = await loadStoredFlow(id)
+        if (!flow) throw new Error('Flow no longer exists')
+        openFlow(flow)
+        setIsFlowsDialogOpen(false)
+      })
+    },
+    [runStorageAction, persistCurrent, openFlow]
+  )
+
+  const handleRenameFlow = useCallback(
+    (id: string, name: string) => {
+      const trimmed = name.trim()
+      if (!trimmed) return
+      runStorageAction(async () => {
+        const flow = await loadStoredFlow(id)
+        if (!flow) throw new Error('Flow no longer exists')
+        await saveStoredFlow({ ...flow, name: trimmed })
+        if (activeFlowRef.current?.id === id) {
+          activeFlowRef.current = { id, name: trimmed }
+        }
+      })
+    },
+    [runStorageAction]
+  )
+
+  const handleDuplicateFlow = useCallback(
+    (id: string) => {
+      runStorageAction(async () => {
+        // Duplicate what is on the canvas, not the last autosave
+        if (activeFlowRef.current?.id === id) await persistCurrent()
+        const flow = await loadStoredFlow(id)
+        if (!flow) throw new Error('Flow no longer exists')
+        await saveStoredFlow({ ...flow, id: createFlowId(), name: `${flow.name} (copy)`, updatedAt: Date.now() })
+      })
+    },
+    [runStorageAction, persistCurrent]
+  )
+
+  const handleDeleteFlow = useCallback(
+    (id: string) => {
+      runStorageAction(async () => {
+        await deleteStoredFlow(id)
+        if (activeFlowRef.current?.id === id) {
+          // The deleted flow stays off the canvas; the next edit starts a new flow
+          applyFlowRef.current({ nodes: createEmptyCanvas(), edges: [], metadata: createEmptyFlowMetadata() })
+          lastSavedContentRef.current = null
+          setActiveFlow(null)
+        }
+      })
+    },
+    [runStorageAction, setActiveFlow]
+  )
+
+  const startNewFlow = useCallback(
+    async (name: string) => {
+      try {
+        await persistCurrent()
+      } catch (error) {
+        setStorageError(getErrorMessage(error))
+      }
+      lastSavedContentRef.current = null
+      setActiveFlow({ id: createFlowId(), name: name || DEFAULT_FLOW_NAME })
+    },
+    [persistCurrent, setActiveFlow]
+  )
+
+  const handleRestoreSession = useCallback(() => {
+    const recoverable = recoverableFlow
+    setRecoverableFlow(null)
+    if (!recoverable) return
+    runStorageAction(async () => {
+      try {
+        const flow = await loadStoredFlow(recoverable.id)
+        if (flow) openFlow(flow)
+      } finally {
+        setIsReady(true)
+      }
+    })
+  }, [recoverableFlow, runStorageAction, openFlow])
+
+  const handleDiscardSession = useCallback(() => {
+    // The flow stays in the list; the editor starts with an empty canvas
+    setRecoverableFlow(null)
+    writeFlowSession(null)
+    setIsReady(true)
+  }, [])
+
+  return {
+    flows,
+    activeFlowId,
+    isFlowsDialogOpen,
+    recoverableFlow,
+    storageError,
+    handleOpenFlowsDialog,
+    handleCloseFlowsDialog,
+    handleCreateFlow,
+    handleOpenFlow,
+    handleRenameFlow,
+    handleDuplicateFlow,
+    handleDeleteFlow,
+    handleRestoreSession,
+    handleDiscardSession,
+    startNewFlow,
+  }
+}
@@ -0,0 +1,106 @@
+import { useCallback, useMemo, useState } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { useModules } from './useModules'
+import { exportFlowToJson } from '../utils/exportHelpers'
+import { buildDialogFromReactFlow, type CustomFlowMetadata, type DialogConfig } from '../utils/translationHelpers'
+import {
+  fireHandler,
+  getHandlerChoices,
+  getSimulationResult,
+  startSimulation,
+  stepBack,
+  type HandlerChoice,
+  type SimulationResult,
+  type SimulationStep,
+} from '../utils/flowSimulator'
+
+export type SimulatorHighlight = 'current' | 'visited'
+
+export interface FlowSimulatorState {
+  isSimulatorOpen: boolean
+  dialog: DialogConfig | null
+  path: SimulationStep[]
+  choices: HandlerChoice[]
+  result: SimulationResult | null
+  // Canvas highlight per node id (current module and modules already on the path)
+  highlights: Map<string, SimulatorHighlight>
+}
+
+export interface FlowSimulatorActions {
+  handleOpenSimulator: () => void
+  handleCloseSimulator: () => void
+  handleFireHandler: (handler: string) => void
+  handleStepBack: () => void
+  handleRestartSimulation: () => void
+}
+
+export function useFlowSimulator(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata
+): FlowSimulatorState & FlowSimulatorActions {
+  const modules = useModules()
+  const [isSimulatorOpen, setIsSimulatorOpen] = useState(false)
+  const [path, setPath] = useState<SimulationStep[]>([])
+
+  // The simulator runs on the same dialog the export produces, rebuilt while the flow is edited
+  const dialog = useMemo(
+    () => (isSimulatorOpen ? buildDialogFromReactFlow(exportFlowToJson(nodes, edges), flowMetadata) : null),
+    [isSimulatorOpen, nodes, edges, flowMetadata]
+  )
+
+  const current = path[path.length - 1]
+  const choices = useMemo(
+    () => (dialog && current ? getHandlerChoices(dialog, current.moduleId, modules) : []),
+    [dialog, current, modules]
+  )
+  const result = useMemo(() => (dialog ? getSimulationResult(dialog, path, modules) : null), [dialog, path, modules])
+
+  const highlights = useMemo(() => {
+    const next = new Map<string, SimulatorHighlight>()
+    if (!isSimulatorOpen) return next
+    path.forEach((step) => next.set(step.moduleId, 'visited'))
+    if (current) next.set(current.moduleId, 'current')
+    return next
+  }, [isSimulatorOpen, path, current])
+
+  const handleOpenSimulator = useCallback(() => {
+    setPath(startSimulation(buildDialogFromReactFlow(exportFlowToJson(nodes, edges), flowMetadata)))
+    setIsSimulatorOpen(true)
+  }, [nodes, edges, flowMetadata])
+
+  const handleCloseSimulator = useCallback(() => {
+    setIsSimulatorOpen(false)
+    setPath([])
+  }, [])
+
+  const handleFireHandler = useCallback(
+    (handler: string) => {
+      if (!dialog) return
+      setPath((currentPath) => fireHandler(dialog, currentPath, handler))
+    },
+    [dialog]
+  )
+
+  const handleStepBack = useCallback(() => {
+    setPath((currentPath) => stepBack(currentPath))
+  }, [])
+
+  const handleRestartSimulation = useCallback(() => {
+    if (dialog) setPath(startSimulation(dialog))
+  }, [dialog])
+
+  return {
+    isSimulatorOpen,
+    dialog,
+    path,
+    choices,
+    result,
+    highlights,
+    handleOpenSimulator,
+    handleCloseSimulator,
+    handleFireHandler,
+    handleStepBack,
+    handleRestartSimulation,
+  }
+}
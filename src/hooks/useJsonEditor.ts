@@ -12,7 +12,9 @@ export interface JsonEditorActions {
   handleCloseJsonEditor: () => void
   handleSaveJsonEditor: (
     reactFlowData: { nodes: any[]; edges: any[] },
-    metadata: CustomFlowMetadata
+    metadata: CustomFlowMetadata,
+    // Replace the canvas instead of keeping positions/properties of nodes with the same id (opening another flow)
+    replaceCanvas?: boolean
   ) => void
 }
 
@@ -39,7 +41,7 @@ export function useJsonEditor(
   }, [])
 
   const handleSaveJsonEditor = useCallback(
-    (reactFlowData: { nodes: any[]; edges: any[] }, metadata: CustomFlowMetadata) => {
+    (reactFlowData: { nodes: any[]; edges: any[] }, metadata: CustomFlowMetadata, replaceCanvas = false) => {
       // Save history before applying changes
       saveHistoryBeforeChange()
 
@@ -55,7 +57,7 @@ export function useJsonEditor(
       // Reconstruct nodes properly - preserve positions and all properties
       // Important: Preserve node positions from current canvas to avoid layout changes
       const reconstructedNodes: Node[] = reactFlowData.nodes.map((node) => {
-        const originalNode = nodes.find((n) => n.id === node.id)
+        const originalNode = replaceCanvas ? undefined : nodes.find((n) => n.id === node.id)
 
         // Deep merge data: start with original node data, then override with new data
         // This ensures all properties (like params, outputIndex, parentNodeId, etc.) are preserved
@@ -93,9 +95,9 @@ export function useJsonEditor(
       // Preserve all edges with all properties including markerEnd (arrow heads), style, etc.
       const preservedEdges = reactFlowData.edges.map((edge) => {
         // Find original edge to preserve all properties
-        const originalEdge = edges.find(
-          (e) => e.id === edge.id || (e.source === edge.source && e.target === edge.target)
-        )
+        const originalEdge = replaceCanvas
+          ? undefined
+          : edges.find((e) => e.id === edge.id || (e.source === edge.source && e.target === edge.target))
 
         // Default markerEnd if missing
         const defaultMarkerEnd = {
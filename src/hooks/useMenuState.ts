@@ -7,6 +7,8 @@ export interface MenuState {
   toolbarMenuOpen: 'stickers' | 'mainConfig' | null
   toolbarMenuPosition: { x: number; y: number } | null
   toolbarMenuSize: { width: number; height: number }
+  // Param the open node menu should scroll to and focus
+  menuFocusParamName: string | null
 }
 
 export interface MenuActions {
@@ -16,6 +18,7 @@ export interface MenuActions {
   setToolbarMenuPosition: (position: { x: number; y: number } | null) => void
   setToolbarMenuSize: (size: { width: number; height: number }) => void
   handleLabelClick: (nodeId: string) => void
+  handleOpenMenuAtParam: (nodeId: string, paramName?: string) => void
   handleCloseMenu: () => void
   handleOpenFlowConfigMenu: () => void
   handleCloseFlowConfigMenu: () => void
@@ -35,6 +38,7 @@ export function useMenuState(
   const [toolbarMenuOpen, setToolbarMenuOpen] = useState<'stickers' | 'mainConfig' | null>(null)
   const [toolbarMenuPosition, setToolbarMenuPosition] = useState<{ x: number; y: number } | null>(null)
   const [toolbarMenuSize, setToolbarMenuSize] = useState<{ width: number; height: number }>({ width: 360, height: 180 })
+  const [menuFocusParamName, setMenuFocusParamName] = useState<string | null>(null)
 
   const handleLabelClick = useCallback((nodeId: string) => {
     const node = nodes.find((n) => n.id === nodeId)
@@ -64,11 +68,25 @@ export function useMenuState(
     // Open menu immediately - no delay needed since we closed all other menus
     setOpenMenuNodeId(nodeId)
     setMenuPosition(null) // Reset position so menu opens at logical place next to node
+    setMenuFocusParamName(null)
   }, [nodes, setNodes, openMenuNodeId])
 
+  // Open a node menu scrolled to a specific param (keeps the node selection as is)
+  const handleOpenMenuAtParam = useCallback((nodeId: string, paramName?: string) => {
+    const node = nodes.find((n) => n.id === nodeId)
+    if (!node || isStartNode(node)) return
+
+    setToolbarMenuOpen(null)
+    setToolbarMenuPosition(null)
+    setOpenMenuNodeId(nodeId)
+    setMenuPosition(null)
+    setMenuFocusParamName(paramName ?? null)
+  }, [nodes])
+
   const handleCloseMenu = useCallback(() => {
     setOpenMenuNodeId(null)
     setMenuPosition(null)
+    setMenuFocusParamName(null)
   }, [])
 
   const handleOpenFlowConfigMenu = useCallback(() => {
@@ -151,12 +169,14 @@ export function useMenuState(
     toolbarMenuOpen,
     toolbarMenuPosition,
     toolbarMenuSize,
+    menuFocusParamName,
     setOpenMenuNodeId,
     setMenuPosition,
     setToolbarMenuOpen,
     setToolbarMenuPosition,
     setToolbarMenuSize,
     handleLabelClick,
+    handleOpenMenuAtParam,
     handleCloseMenu,
     handleOpenFlowConfigMenu,
     handleCloseFlowConfigMenu,
@@ -0,0 +1,77 @@
+import { useState, useCallback } from 'react'
+import { moduleRegistry, type Module } from '../modules'
+import { getStartModule } from '../utils/moduleHelpers'
+import { parseModuleCatalogFile, diffModuleCatalogs, type ModuleCatalogDiff } from '../utils/moduleDiff'
+import type { RejectedModuleEntry } from '../utils/moduleCatalog'
+
+export interface PendingModuleImport {
+  fileName: string
+  // Modules that will replace the registry when applied
+  modules: Module[]
+  diff: ModuleCatalogDiff | null
+  rejected: RejectedModuleEntry[]
+  // File could not be read or parsed at all
+  error?: string
+}
+
+export interface ModuleImportState {
+  pendingModuleImport: PendingModuleImport | null
+}
+
+export interface ModuleImportActions {
+  handleImportModulesFile: (file: File) => void
+  handleApplyModuleImport: () => void
+  handleCancelModuleImport: () => void
+}
+
+export function useModuleImport(): ModuleImportState & ModuleImportActions {
+  const [pendingModuleImport, setPendingModuleImport] = useState<PendingModuleImport | null>(null)
+
+  const handleImportModulesFile = useCallback((file: File) => {
+    file.text().then((text) => {
+      try {
+        const { modules, rejected } = parseModuleCatalogFile(file.name, text)
+
+        // Every flow needs an entry point - keep the current Start module if the catalog has none
+        const startModule = getStartModule()
+        const catalogHasStart = modules.some(
+          (m) => m.type === 'outputOnly' && m.showInToolbar === false && m.showMenu === false
+        )
+        const modulesToApply = startModule && !catalogHasStart ? [...modules, startModule] : modules
+
+        setPendingModuleImport({
+          fileName: file.name,
+          modules: modulesToApply,
+          diff: diffModuleCatalogs(moduleRegistry.get(), modulesToApply),
+          rejected,
+        })
+      } catch (error) {
+        setPendingModuleImport({
+          fileName: file.name,
+          modules: [],
+          diff: null,
+          rejected: [],
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    })
+  }, [])
+
+  const handleApplyModuleImport = useCallback(() => {
+    if (pendingModuleImport && !pendingModuleImport.error && pendingModuleImport.modules.length > 0) {
+      moduleRegistry.replace(pendingModuleImport.modules, 'file')
+    }
+    setPendingModuleImport(null)
+  }, [pendingModuleImport])
+
+  const handleCancelModuleImport = useCallback(() => {
+    setPendingModuleImport(null)
+  }, [])
+
+  return {
+    pendingModuleImport,
+    handleImportModulesFile,
+    handleApplyModuleImport,
+    handleCancelModuleImport,
+  }
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react'
+import { moduleRegistry, type Module } from '../modules'
+
+/**
+ * Subscribe a component to the module registry.
+ * Re-renders whenever modules are replaced (e.g. after a catalog is loaded).
+ */
+export function useModules(): Module[] {
+  return useSyncExternalStore(moduleRegistry.subscribe, moduleRegistry.get)
+}
@@ -1,6 +1,6 @@
 import { useCallback } from 'react'
 import type { ReactFlowInstance, Node } from 'reactflow'
-import modules from '../modules'
+import { moduleRegistry } from '../modules'
 import nodeConfigs, { type NodeType, isBranchingNodeType } from '../nodeConfigs'
 import { createNodeFromConfig, createBranchingNodeWithOutputs } from '../utils/nodeCreation'
 import { isStartModule, isStartNode } from '../utils/moduleHelpers'
@@ -46,7 +46,7 @@ export function useNodeCreation(
         y: event.clientY,
       })
 
-      const module = modules.find((m) => m.name === type)
+      const module = moduleRegistry.byName(type)
       if (!module) {
         return
       }
@@ -202,7 +202,7 @@ export function useNodeCreation(
           attempts++
         }
 
-        const module = modules.find((m) => m.name === moduleName)
+        const module = moduleRegistry.byName(moduleName)
         if (!module) {
           return nds
         }
@@ -283,7 +283,7 @@ export function useNodeCreation(
       setOpenMenuNodeId(null)
       setMenuPosition(null)
     },
-    [reactFlowInstance, setNodes, modules, saveHistoryBeforeChange, isLocked, setOpenMenuNodeId, setMenuPosition, reactFlowWrapper, highestZIndexRef]
+    [reactFlowInstance, setNodes, saveHistoryBeforeChange, isLocked, setOpenMenuNodeId, setMenuPosition, reactFlowWrapper, highestZIndexRef]
   )
 
   return {
@@ -1,7 +1,7 @@
 import { useCallback } from 'react'
 import type { Node } from 'reactflow'
 import type { ReactFlowInstance } from 'reactflow'
-import modules from '../modules'
+import { moduleRegistry } from '../modules'
 import nodeConfigs, { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, canOutputNodeBeDeleted } from '../nodeConfigs'
 import { getNodeLabel } from '../utils/nodeUtils'
 import { getBranchingLayoutConstants, calculateOutputNodePosition, repositionOutputNodes } from '../utils/branchingNodeHelpers'
@@ -46,7 +46,7 @@ export function useNodeManipulation(
         if (isOutputNode && parentNodeId && updatedData.params?.value !== undefined) {
           const parentNode = nds.find((n) => n.id === parentNodeId)
           if (parentNode) {
-            const module = parentNode.data?.moduleName ? modules.find((m) => m.name === parentNode.data.moduleName) : undefined
+            const module = parentNode.data?.moduleName ? moduleRegistry.byName(parentNode.data.moduleName) : undefined
             if (module?.outputConfig?.type === 'listParam') {
               const listParamName = module.outputConfig.listParamName
               const outputIndex = typeof node.data?.outputIndex === 'number' ? node.data.outputIndex : 0
@@ -87,7 +87,7 @@ export function useNodeManipulation(
 
                   // Recalculate label if module info is available
                   if (updatedNode.data.moduleName) {
-                    const module = modules.find((m) => m.name === updatedNode.data.moduleName)
+                    const module = moduleRegistry.byName(updatedNode.data.moduleName)
                     const nodeType = updatedNode.data?.nodeType as NodeType | undefined
                     updatedNode.data.label = getNodeLabel(module, updatedNode.data, nodeType)
                   }
@@ -113,7 +113,7 @@ export function useNodeManipulation(
 
             // Recalculate label if module info is available
             if (updatedNode.data.moduleName) {
-              const module = modules.find((m) => m.name === updatedNode.data.moduleName)
+              const module = moduleRegistry.byName(updatedNode.data.moduleName)
               const nodeType = updatedNode.data?.nodeType as NodeType | undefined
               updatedNode.data.label = getNodeLabel(module, updatedNode.data, nodeType)
             }
@@ -205,7 +205,7 @@ export function useNodeManipulation(
           const branchingNode = nds.find((n) => n.id === parentId)
           if (!branchingNode) return nds.filter((n) => n.id !== nodeId)
 
-          const module = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+          const module = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
           if (!module?.outputConfig || module.outputConfig.type !== 'listParam') {
             // For non-listParam branching nodes, just remove the output node
             return nds.filter((n) => n.id !== nodeId)
@@ -319,7 +319,7 @@ export function useNodeManipulation(
         const moduleName = node.data?.moduleName
         if (!moduleName) return true // Default to true if no module name
 
-        const module = modules.find((m) => m.name === moduleName)
+        const module = moduleRegistry.byName(moduleName)
         if (!module) return true // Default to true if module not found
 
         // Check if module explicitly disallows duplication
@@ -331,7 +331,7 @@ export function useNodeManipulation(
           if (parentNode) {
             const parentModuleName = parentNode.data?.moduleName
             if (parentModuleName) {
-              const parentModule = modules.find((m) => m.name === parentModuleName)
+              const parentModule = moduleRegistry.byName(parentModuleName)
               if (parentModule) {
                 // If parent has internal outputConfig or canDuplicate is false, don't duplicate output
                 if (parentModule.canDuplicate === false || parentModule.outputConfig?.type === 'internal') {
@@ -362,7 +362,7 @@ export function useNodeManipulation(
         const parentModuleName = parentNode.data?.moduleName
         if (!parentModuleName) return false
 
-        const parentModule = modules.find((m) => m.name === parentModuleName)
+        const parentModule = moduleRegistry.byName(parentModuleName)
         if (!parentModule || parentModule.outputConfig?.type !== 'listParam') return false
         // Check if the module has duplicateOutputAddsToParent enabled (default: true)
         return parentModule.duplicateOutputAddsToParent !== false
@@ -374,7 +374,7 @@ export function useNodeManipulation(
         const parentNode = nds.find((n) => n.id === outputNode.data?.parentNodeId)
         if (!parentNode) return nds
 
-        const module = parentNode.data?.moduleName ? modules.find((m) => m.name === parentNode.data.moduleName) : undefined
+        const module = parentNode.data?.moduleName ? moduleRegistry.byName(parentNode.data.moduleName) : undefined
         if (!module?.outputConfig || module.outputConfig.type !== 'listParam') return nds
 
         const listParamName = module.outputConfig.listParamName
@@ -1,10 +1,13 @@
 import { useMemo, useEffect } from 'react'
 import type { Node } from 'reactflow'
-import modules from '../modules'
+import { useModules } from './useModules'
 import nodeConfigs, { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, NODE_TYPES, canOutputNodeBeDeleted } from '../nodeConfigs'
 import { getNodeLabel } from '../utils/nodeUtils'
 import { isStickerNode } from '../utils/moduleHelpers'
 import type { CustomFlowMetadata } from '../utils/translationHelpers'
+import type { ValidationIssue } from '../utils/graphValidation'
+import type { SimulatorHighlight } from './useFlowSimulator'
+import type { FlowDiffStatus } from '../utils/flowDiff'
 
 export interface NodePropertiesOptions {
   nodes: Node[]
@@ -12,6 +15,12 @@ export interface NodePropertiesOptions {
   draggingNodeIds: Set<string>
   handleLabelClick: (nodeId: string) => void
   highestZIndexRef: React.MutableRefObject<number>
+  // Live validation results, rendered as badges on the nodes
+  validationIssuesByNode?: Map<string, ValidationIssue[]>
+  // Simulator position, highlighted on the canvas
+  simulatorHighlights?: Map<string, SimulatorHighlight>
+  // Added/changed modules while a diff is open
+  diffHighlights?: Map<string, FlowDiffStatus>
 }
 
 export function useNodeProperties({
@@ -20,7 +29,12 @@ export function useNodeProperties({
   draggingNodeIds,
   handleLabelClick,
   highestZIndexRef,
+  validationIssuesByNode,
+  simulatorHighlights,
+  diffHighlights,
 }: NodePropertiesOptions): Node[] {
+  const modules = useModules()
+
   return useMemo(() => {
     // First pass: calculate consistent z-index "bands" for branching nodes and their outputs
     // Each branching node + its outputs form a contiguous band:
@@ -142,12 +156,21 @@ export function useNodeProperties({
       const stickersParamValue = stickersParamName ? node.data?.params?.[stickersParamName] : undefined
       const hasStickersParam = Array.isArray(stickersParamValue) && stickersParamValue.length > 0
 
+      const simulatorHighlight = simulatorHighlights?.get(node.id)
+      const diffHighlight = diffHighlights?.get(node.id)
+      const wrapperClassName = isBranchingOutputNodeType(nodeType)
+        ? 'branching-output-node-wrapper'
+        : isStickerNode(node)
+          ? 'sticker-node-wrapper'
+          : undefined
+
       return {
         ...node,
         data: {
           ...node.data,
           label: calculatedLabel,
           onLabelClick: handleLabelClick,
+          validationIssues: validationIssuesByNode?.get(node.id),
           ...(hasStickersParam
             ? {
               stickerColor: (() => {
@@ -177,12 +200,14 @@ export function useNodeProperties({
         })(),
         zIndex,
         // Add className to node for CSS animation targeting (ReactFlow applies this to the wrapper)
-        className: isBranchingOutputNodeType(nodeType)
-          ? 'branching-output-node-wrapper'
-          : isStickerNode(node)
-            ? 'sticker-node-wrapper'
-            : undefined,
+        className: simulatorHighlight || diffHighlight
+          ? [
+            wrapperClassName,
+            simulatorHighlight && `simulator-node--${simulatorHighlight}`,
+            diffHighlight && `flow-diff-node--${diffHighlight}`,
+          ].filter(Boolean).join(' ')
+          : wrapperClassName,
       }
     })
-  }, [nodes, flowMetadata, draggingNodeIds, handleLabelClick, highestZIndexRef])
+  }, [nodes, modules, flowMetadata, draggingNodeIds, handleLabelClick, highestZIndexRef, validationIssuesByNode, simulatorHighlights, diffHighlights])
 }
@@ -0,0 +1,77 @@
+import { useCallback, type Dispatch, type SetStateAction } from 'react'
+import { type Node, type Edge } from 'reactflow'
+import { exportFlowToJson } from '../utils/exportHelpers'
+import { buildDialogFromReactFlow, type CustomFlowMetadata, type ReactFlowJson } from '../utils/translationHelpers'
+import { createTestScenario, runTestScenarios, type TestScenarioResult } from '../utils/testScenarios'
+import type { SimulationStep } from '../utils/flowSimulator'
+import type { ValidationStatus } from './useValidation'
+
+export interface TestScenarioActions {
+  handleRunTestScenarios: () => void
+  // Re-run the scenarios of an imported flow (before the canvas has re-rendered it)
+  runTestScenariosAfterImport: (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata) => void
+  handleSaveTestScenario: (name: string, path: SimulationStep[]) => void
+}
+
+// Failed scenarios become issues on the module where they diverged; passes are counted in the summary
+const getTestScenarioStatus = (results: TestScenarioResult[]): ValidationStatus => {
+  const failed = results.filter((result) => !result.passed)
+  if (failed.length === 0) {
+    return {
+      isValid: true,
+      message: `All ${results.length} test scenario${results.length === 1 ? '' : 's'} passed`,
+      issues: [],
+    }
+  }
+  return {
+    isValid: false,
+    message: failed.map((result) => `Scenario "${result.name}": ${result.message}`).join('; '),
+    summary: `${results.length - failed.length} passed, ${failed.length} failed`,
+    issues: failed.map((result) => ({
+      severity: 'error' as const,
+      nodeId: result.moduleId,
+      ruleId: 'test-scenario',
+      message: `Scenario "${result.name}": ${result.message}`,
+    })),
+  }
+}
+
+export function useTestScenarios(
+  nodes: Node[],
+  edges: Edge[],
+  flowMetadata: CustomFlowMetadata,
+  setFlowMetadata: Dispatch<SetStateAction<CustomFlowMetadata>>,
+  setValidationStatus: (status: ValidationStatus) => void
+): TestScenarioActions {
+  const handleRunTestScenarios = useCallback(() => {
+    const scenarios = flowMetadata.test_scenarios ?? []
+    if (scenarios.length === 0) {
+      setValidationStatus({ isValid: true, message: 'No test scenarios yet - record one in the simulator' })
+      return
+    }
+    const dialog = buildDialogFromReactFlow(exportFlowToJson(nodes, edges), flowMetadata)
+    setValidationStatus(getTestScenarioStatus(runTestScenarios(dialog, scenarios)))
+  }, [nodes, edges, flowMetadata, setValidationStatus])
+
+  const runTestScenariosAfterImport = useCallback(
+    (reactFlowData: ReactFlowJson, metadata: CustomFlowMetadata) => {
+      const scenarios = metadata.test_scenarios ?? []
+      if (scenarios.length === 0) return
+      const dialog = buildDialogFromReactFlow(reactFlowData, metadata)
+      setValidationStatus(getTestScenarioStatus(runTestScenarios(dialog, scenarios)))
+    },
+    [setValidationStatus]
+  )
+
+  const handleSaveTestScenario = useCallback(
+    (name: string, path: SimulationStep[]) => {
+      setFlowMetadata((current) => ({
+        ...current,
+        test_scenarios: [...(current.test_scenarios ?? []), createTestScenario(name, path)],
+      }))
+    },
+    [setFlowMetadata]
+  )
+
+  return { handleRunTestScenarios, runTestScenariosAfterImport, handleSaveTestScenario }
+}
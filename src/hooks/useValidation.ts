@@ -1,104 +1,113 @@
-import { useCallback } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { type Node, type Edge } from 'reactflow'
-import nodeConfigs, { type NodeType, isBranchingOutputNodeType } from '../nodeConfigs'
-import modules from '../modules'
-import { isEmpty, isParamObligatory } from '../utils/configHelpers'
+import { useModules } from './useModules'
+import { validateFlowGraph, getGraphValidationSignature, type ValidationIssue } from '../utils/graphValidation'
+import { validateNode, getNodeValidationSignature } from '../utils/nodeValidation'
 
 export interface ValidationStatus {
   isValid: boolean | null
   message: string
+  // Individual findings (errors first); absent for plain status messages
+  issues?: ValidationIssue[]
+  // Heading of the issue panel; defaults to the error/warning counts
+  summary?: string
 }
 
+// Delay before live validation re-runs after the last node/edge change
+const LIVE_VALIDATION_DELAY_MS = 300
 
-export function useValidation(nodes: Node[], edges: Edge[]) {
-  const validate = useCallback((): ValidationStatus => {
-    const errors: string[] = []
-
-    // Check if all nodes with source handles have outgoing edges
-    const nodesWithSourceHandles = nodes.filter((node) => {
-      const nodeType = node.data?.nodeType as NodeType | undefined
-      if (!nodeType) return false
-      const config = nodeConfigs[nodeType]
-      return config?.hasSourceHandles === true
-    })
+const sortIssues = (issues: ValidationIssue[]): ValidationIssue[] => [
+  ...issues.filter((issue) => issue.severity === 'error'),
+  ...issues.filter((issue) => issue.severity === 'warning'),
+]
 
-    const unconnectedNodes = nodesWithSourceHandles.filter((node) => {
-      const hasOutgoingEdge = edges.some((edge) => edge.source === node.id)
-      return !hasOutgoingEdge
-    })
+export function useValidation(nodes: Node[], edges: Edge[], taskValues?: Record<string, unknown>, channel?: string) {
+  const modules = useModules()
 
-    if (unconnectedNodes.length > 0) {
-      const nodeLabels = unconnectedNodes.map((n) => {
-        const label = n.data?.label || n.id
-        if (n.data?.parentNodeId) {
-          const parentNode = nodes.find((parent) => parent.id === n.data.parentNodeId)
-          const parentLabel = parentNode?.data?.label || n.data.parentNodeId
-          return `${label} (parent: ${parentLabel})`
-        }
-        return label
-      }).join(', ')
-      errors.push(`${unconnectedNodes.length} node(s) with outputs are not connected: ${nodeLabels}`)
-    }
-
-    // Check if all obligatory params are filled
-    const nodesWithMissingParams: Array<{ node: Node; missingParams: string[] }> = []
+  const validate = useCallback((): ValidationStatus => {
+    const context = { nodes, edges, modules, taskValues, channel }
+    const issues: ValidationIssue[] = []
 
+    // Per-node rules: connected outputs, obligatory params, unknown modules, channel support
     nodes.forEach((node) => {
-      const module = node.data?.moduleName ? modules.find((m) => m.name === node.data.moduleName) : undefined
-      if (!module) return
-
-      const nodeParams = node.data?.params || {}
-      const missingParams: string[] = []
+      issues.push(...validateNode(node, context))
+    })
 
-      module.params.forEach((param) => {
-        const isObligatory = isParamObligatory(param)
+    // Reachability, paths to Exit, cycles, Start nodes and dangling handlers
+    issues.push(...validateFlowGraph(nodes, edges))
 
-        if (isObligatory) {
-          const paramValue = nodeParams[param.name]
-          if (isEmpty(paramValue)) {
-            missingParams.push(param.name)
-          }
-        }
-      })
+    // Errors first, warnings after
+    const sortedIssues = sortIssues(issues)
+    const hasErrors = sortedIssues.some((issue) => issue.severity === 'error')
 
-      // For output nodes linked to listParam, check if value is filled
-      if (isBranchingOutputNodeType(node.data?.nodeType as NodeType) && module.outputConfig?.type === 'listParam') {
-        const outputValue = nodeParams.value
-        if (isEmpty(outputValue)) {
-          missingParams.push('value')
-        }
+    if (sortedIssues.length === 0) {
+      return {
+        isValid: true,
+        message: 'All validations passed',
+        issues: [],
       }
-
-      if (missingParams.length > 0) {
-        nodesWithMissingParams.push({ node, missingParams })
+    }
+    return {
+      isValid: !hasErrors,
+      message: sortedIssues
+        .map((issue) => (issue.severity === 'warning' ? `Warning: ${issue.message}` : issue.message))
+        .join('; '),
+      issues: sortedIssues,
+    }
+  }, [nodes, edges, modules, taskValues, channel])
+
+  // Live validation: debounced, re-checks only nodes whose inputs changed since the last run
+  const [issuesByNode, setIssuesByNode] = useState<Map<string, ValidationIssue[]>>(() => new Map())
+  const nodeCacheRef = useRef(new Map<string, { signature: string; issues: ValidationIssue[] }>())
+  const graphCacheRef = useRef<{ signature: string; issues: ValidationIssue[] } | null>(null)
+  const cachedModulesRef = useRef(modules)
+  const lastResultRef = useRef('')
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      // Module definitions changed - every cached result may be stale
+      if (cachedModulesRef.current !== modules) {
+        cachedModulesRef.current = modules
+        nodeCacheRef.current.clear()
+        graphCacheRef.current = null
       }
-    })
 
-    if (nodesWithMissingParams.length > 0) {
-      const missingParamsMessages = nodesWithMissingParams.map(({ node, missingParams }) => {
-        const label = node.data?.label || node.id
-        if (node.data?.parentNodeId) {
-          const parentNode = nodes.find((parent) => parent.id === node.data.parentNodeId)
-          const parentLabel = parentNode?.data?.label || node.data.parentNodeId
-          return `${label} (parent: ${parentLabel}): missing ${missingParams.join(', ')}`
-        }
-        return `${label}: missing ${missingParams.join(', ')}`
-      }).join('; ')
-      errors.push(`Missing obligatory params: ${missingParamsMessages}`)
-    }
+      const context = { nodes, edges, modules, taskValues, channel }
+      const nextNodeCache = new Map<string, { signature: string; issues: ValidationIssue[] }>()
+      nodes.forEach((node) => {
+        const signature = getNodeValidationSignature(node, context)
+        const cached = nodeCacheRef.current.get(node.id)
+        nextNodeCache.set(
+          node.id,
+          cached && cached.signature === signature ? cached : { signature, issues: validateNode(node, context) }
+        )
+      })
+      nodeCacheRef.current = nextNodeCache
 
-    if (errors.length === 0) {
-      return {
-        isValid: true,
-        message: 'All validations passed',
+      const graphSignature = getGraphValidationSignature(nodes, edges)
+      if (!graphCacheRef.current || graphCacheRef.current.signature !== graphSignature) {
+        graphCacheRef.current = { signature: graphSignature, issues: validateFlowGraph(nodes, edges) }
       }
-    } else {
-      return {
-        isValid: false,
-        message: errors.join('; '),
+
+      const next = new Map<string, ValidationIssue[]>()
+      const addIssue = (issue: ValidationIssue) => {
+        if (!issue.nodeId) return
+        next.set(issue.nodeId, [...(next.get(issue.nodeId) ?? []), issue])
       }
-    }
-  }, [nodes, edges])
+      nextNodeCache.forEach(({ issues }) => issues.forEach(addIssue))
+      graphCacheRef.current.issues.forEach(addIssue)
+      next.forEach((issues, nodeId) => next.set(nodeId, sortIssues(issues)))
+
+      // Skip the state update when nothing changed so the canvas does not re-render
+      const result = JSON.stringify(Array.from(next.entries()))
+      if (result !== lastResultRef.current) {
+        lastResultRef.current = result
+        setIssuesByNode(next)
+      }
+    }, LIVE_VALIDATION_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [nodes, edges, modules, taskValues, channel])
 
-  return { validate }
+  return { validate, issuesByNode }
 }
@@ -1,6 +1,5 @@
 import { useCallback, useState } from 'react'
 import type { ReactFlowInstance, Node } from 'reactflow'
-import modules from '../modules'
 import { createNodeFromConfig } from '../utils/nodeCreation'
 import type { NodeType } from '../nodeConfigs'
 import { isStartNode, getStartModule } from '../utils/moduleHelpers'
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import { DEFAULT_VOICE_CATALOG, loadVoiceCatalog, type VoiceCatalogResult } from '../utils/voiceCatalog'
+
+// Loaded once per session and shared by every flow configuration menu
+let catalogRequest: Promise<VoiceCatalogResult> | null = null
+
+/**
+ * Voice catalog (languages, TTS voices, STT models) for the flow configuration.
+ * Returns the built-in catalog until the configured one has loaded.
+ */
+export function useVoiceCatalog(): VoiceCatalogResult {
+  const [result, setResult] = useState<VoiceCatalogResult>({ catalog: DEFAULT_VOICE_CATALOG, source: 'default', errors: [] })
+
+  useEffect(() => {
+    let cancelled = false
+    if (!catalogRequest) {
+      catalogRequest = loadVoiceCatalog()
+    }
+    catalogRequest.then((loaded) => {
+      if (!cancelled) setResult(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return result
+}
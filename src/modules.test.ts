@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  addDynamicModules,
+  canReplaceModuleCatalog,
+  downloadModules,
+  moduleRegistry,
+  resetModules,
+  type Module,
+} from './modules'
+import { readCachedModuleCatalog } from './utils/moduleCatalog'
+
+const BASE_URL = 'http://catalog.test'
+
+const askModule = {
+  name: 'Ask',
+  type: 'single',
+  description: 'Ask the caller a question',
+  params: [{ name: 'question', type: 'str' }],
+  handlers: ['node_exit'],
+}
+
+// Catalog API stand-in: answers GET <base>/bots/<id>/modules from `catalogs` and records the requests
+const createMockCatalogServer = (catalogs: Record<string, { status?: number; body: unknown }>) => {
+  const requests: string[] = []
+  const fetch = async (input: RequestInfo | URL): Promise<Response> => {
+    const url = new URL(String(input))
+    requests.push(url.pathname)
+    const match = url.pathname.match(/^\/bots\/([^/]+)\/modules$/)
+    const catalog = match ? catalogs[decodeURIComponent(match[1])] : undefined
+    if (!catalog) return new Response('Not found', { status: 404 })
+    return new Response(JSON.stringify(catalog.body), {
+      status: catalog.status ?? 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+  return { fetch, requests }
+}
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key)
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    },
+  }
+}
+
+describe('downloadModules', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('loads and caches a valid catalog from the server', async () => {
+    const server = createMockCatalogServer({ 'bot 1': { body: { modules: [askModule] } } })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const result = await downloadModules('bot 1', BASE_URL)
+
+    expect(server.requests).toEqual(['/bots/bot%201/modules'])
+    expect(result.source).toBe('remote')
+    expect(result.modules.map((module) => module.name)).toEqual(['Ask'])
+    expect(readCachedModuleCatalog('bot 1')?.map((module) => module.name)).toEqual(['Ask'])
+  })
+
+  it('reports rejected entries next to the valid ones', async () => {
+    const server = createMockCatalogServer({ bot: { body: [askModule, { name: 'Broken', type: 'nope' }] } })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const result = await downloadModules('bot', BASE_URL)
+
+    expect(result.modules.map((module) => module.name)).toEqual(['Ask'])
+    expect(result.rejected).toHaveLength(1)
+    expect(result.rejected[0].name).toBe('Broken')
+  })
+
+  it('keeps the cached catalog when the server returns an empty or fully rejected one', async () => {
+    vi.stubGlobal('fetch', createMockCatalogServer({ bot: { body: [askModule] } }).fetch)
+    await downloadModules('bot', BASE_URL)
+
+    vi.stubGlobal('fetch', createMockCatalogServer({ bot: { body: [] } }).fetch)
+    const empty = await downloadModules('bot', BASE_URL)
+    expect(empty.modules).toEqual([])
+
+    vi.stubGlobal('fetch', createMockCatalogServer({ bot: { body: [{ name: 'Broken' }] } }).fetch)
+    await downloadModules('bot', BASE_URL)
+
+    expect(readCachedModuleCatalog('bot')?.map((module) => module.name)).toEqual(['Ask'])
+  })
+
+  it('falls back to the cached catalog when the server fails', async () => {
+    vi.stubGlobal('fetch', createMockCatalogServer({ bot: { body: [askModule] } }).fetch)
+    await downloadModules('bot', BASE_URL)
+
+    vi.stubGlobal('fetch', createMockCatalogServer({ bot: { status: 503, body: {} } }).fetch)
+    const result = await downloadModules('bot', BASE_URL)
+
+    expect(result.source).toBe('cache')
+    expect(result.error).toContain('503')
+    expect(result.modules.map((module) => module.name)).toEqual(['Ask'])
+  })
+
+  it('does not call the server without a bot ID', async () => {
+    const server = createMockCatalogServer({})
+    vi.stubGlobal('fetch', server.fetch)
+
+    const result = await downloadModules('', BASE_URL)
+
+    expect(result).toEqual({ modules: [], rejected: [], source: 'none' })
+    expect(server.requests).toEqual([])
+  })
+})
+
+describe('canReplaceModuleCatalog', () => {
+  afterEach(() => {
+    resetModules()
+  })
+
+  it('lets downloads and resets replace the defaults or a downloaded catalog', () => {
+    expect(canReplaceModuleCatalog([])).toBe(true)
+    addDynamicModules([askModule as Module])
+    expect(moduleRegistry.getSource()).toBe('remote')
+    expect(canReplaceModuleCatalog([])).toBe(true)
+  })
+
+  it('keeps a catalog imported from a file unless the download returned modules', () => {
+    moduleRegistry.replace([askModule as Module], 'file')
+    expect(canReplaceModuleCatalog([])).toBe(false)
+    expect(canReplaceModuleCatalog([askModule as Module])).toBe(true)
+  })
+})
@@ -1,8 +1,16 @@
 import { type NodeType } from './nodeConfigs'
+import {
+    type ModuleCatalogResult,
+    getModuleCatalogBaseUrl,
+    getModuleCatalogUrl,
+    parseModuleCatalog,
+    readCachedModuleCatalog,
+    writeCachedModuleCatalog,
+} from './utils/moduleCatalog'
 
 // Module types are node types except those that are auto-generated
-// Auto-generated types are: branchingOutputInternal, branchingOutputListParam
-type ExcludedModuleTypes = 'branchingOutputInternal' | 'branchingOutputListParam'
+// Auto-generated types are: branchingOutputInternal, branchingOutputListParam, unknown
+type ExcludedModuleTypes = 'branchingOutputInternal' | 'branchingOutputListParam' | 'unknown'
 export type ModuleType = Exclude<NodeType, ExcludedModuleTypes>
 
 // Param can be any type - no restrictions
@@ -10,6 +18,15 @@ export interface Param {
     name: string
     type?: string // Optional type hint for UI rendering, but params can be any value
     obligatory?: boolean // Whether this param is required (default: true if not specified)
+    enum?: (string | number | boolean)[] // Allowed values - rendered as a select
+    min?: number // Lower bound for numbers
+    max?: number // Upper bound for numbers
+    pattern?: string // Regex (without slashes) that string values must match
+    maxLength?: number // Maximum length of string values
+    minItems?: number // Minimum number of list items
+    maxItems?: number // Maximum number of list items
+    default?: unknown // Value for new nodes (falls back to the type default)
+    help?: string // Help text shown under the param in the node menu
 }
 
 // Discriminated union for type-safe output configuration
@@ -23,6 +40,23 @@ export type OutputConfig =
         outputCount: number // REQUIRED for internal type
     }
 
+// Built-in value converters for 'changeType' migrations (usable from JSON catalogs)
+export type ParamConverterName = 'toString' | 'toNumber' | 'toBoolean' | 'toList' | 'fromList'
+export type ParamConverter = ParamConverterName | ((value: unknown) => unknown)
+
+// A single step of a module migration
+export type MigrationStep =
+    | { op: 'renameParam'; from: string; to: string }
+    | { op: 'changeType'; param: string; type: string; convert?: ParamConverter } // convert defaults to one matching `type`
+    | { op: 'dropParam'; param: string }
+    | { op: 'addParam'; param: string; default?: unknown } // default falls back to the type default of the param
+
+// Steps that bring a module from `version - 1` up to `version`
+export interface ModuleMigration {
+    version: number
+    steps: MigrationStep[]
+}
+
 export interface Module {
     // Export name - used in JSON export and for identifying modules
     // This is the canonical name for the module (e.g., "Type 1", "Branching", "Exit")
@@ -30,6 +64,10 @@ export interface Module {
     type: ModuleType
     description: string
     params: Param[]
+    // Current version of the module (exported with each module instance; unversioned = 0)
+    version?: number
+    // Migrations applied on import to modules saved with an older version
+    migrations?: ModuleMigration[]
     // Name of the param that should be used as the node label (must be a primitive type)
     labelParam?: string
     // Output configuration for branching nodes
@@ -53,6 +91,13 @@ export interface Module {
     canDuplicate?: boolean
     // For listParam branching nodes: whether duplicating an output node should add it to the parent (default: true)
     duplicateOutputAddsToParent?: boolean
+    // Variables this module sets, usable as {{name}} in expr/template params of downstream modules
+    // (params of type "var" declare variables too - their value is the variable name)
+    variables?: string[]
+    // Channels the module works on (e.g. ["voice"]); modules without it run on every channel
+    channels?: string[]
+    // Whether nodes can override the flow's voice settings (stored in the "voice_settings" param)
+    voiceOverrides?: boolean
 }
 
 // Default modules - these are always available
@@ -208,35 +253,129 @@ const defaultModules: Module[] = [
     }
 ]
 
-// Dynamically loaded modules (will be populated by downloadModules)
-let dynamicModules: Module[] = []
+// Registry of the currently available modules (defaults + dynamically loaded ones).
+// Consumers read it at call time (or through useModules in components) instead of holding
+// on to an array reference, so replacing the modules is visible everywhere.
+type ModuleRegistryListener = () => void
+
+// Where the registered modules came from: the built-in defaults, a catalog download or an imported file
+export type ModuleCatalogSource = 'default' | 'remote' | 'file'
+
+let registeredModules: Module[] = [...defaultModules]
+let registeredSource: ModuleCatalogSource = 'default'
+const registryListeners = new Set<ModuleRegistryListener>()
+
+export const moduleRegistry = {
+    /**
+     * Get the current modules list. The array is replaced (never mutated) on change,
+     * so it can be used as a snapshot for useSyncExternalStore.
+     */
+    get(): Module[] {
+        return registeredModules
+    },
 
-// Combined modules list - this will be updated when dynamic modules are loaded
-let modules: Module[] = [...defaultModules]
+    /**
+     * Get module by its name (the canonical identifier used in exported JSON).
+     */
+    byName(moduleName: string | undefined): Module | undefined {
+        if (!moduleName) return undefined
+        return registeredModules.find((m) => m.name === moduleName)
+    },
+
+    /**
+     * Get where the current modules list came from.
+     */
+    getSource(): ModuleCatalogSource {
+        return registeredSource
+    },
+
+    /**
+     * Subscribe to module list changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: ModuleRegistryListener): () => void {
+        registryListeners.add(listener)
+        return () => {
+            registryListeners.delete(listener)
+        }
+    },
+
+    /**
+     * Replace the whole modules list (loaded from `source`) and notify subscribers.
+     */
+    replace(newModules: Module[], source: ModuleCatalogSource): void {
+        registeredModules = [...newModules]
+        registeredSource = source
+        registryListeners.forEach((listener) => listener())
+    },
+}
 
 /**
- * Download additional modules from server (placeholder for future implementation)
+ * Download the module catalog for a bot from the server.
+ * Entries are validated against the Module schema; invalid ones are reported in `rejected`.
+ * The last good (non-empty) catalog is cached in localStorage and used when the server is unreachable.
  * @param mchannelsBotId - The mchannels bot ID to fetch modules for
+ * @param baseUrl - Catalog API base URL (defaults to VITE_MODULE_CATALOG_URL)
  */
-export async function downloadModules(_mchannelsBotId: string): Promise<Module[]> {
-    // TODO: Implement actual API call to fetch modules
-    // For now, return empty array
-    // Example:
-    // const response = await fetch(`/api/modules?bot_id=${mchannelsBotId}`)
-    // const data = await response.json()
-    // return data.modules as Module[]
-
-    // TODO: Implement actual API call
-    return []
+export async function downloadModules(
+    mchannelsBotId: string,
+    baseUrl: string = getModuleCatalogBaseUrl()
+): Promise<ModuleCatalogResult> {
+    if (!mchannelsBotId) {
+        return { modules: [], rejected: [], source: 'none' }
+    }
+
+    const fallbackToCache = (error: string): ModuleCatalogResult => {
+        const cached = readCachedModuleCatalog(mchannelsBotId)
+        return cached
+            ? { modules: cached, rejected: [], source: 'cache', error }
+            : { modules: [], rejected: [], source: 'none', error }
+    }
+
+    if (!baseUrl) {
+        return fallbackToCache('Module catalog URL is not configured')
+    }
+
+    try {
+        const response = await fetch(getModuleCatalogUrl(baseUrl, mchannelsBotId), {
+            headers: { Accept: 'application/json' },
+        })
+        if (!response.ok) {
+            return fallbackToCache(`Module catalog request failed with status ${response.status}`)
+        }
+        const { modules: validModules, rejected } = parseModuleCatalog(await response.json())
+        // An empty (or fully rejected) catalog must not replace the last good one
+        if (validModules.length > 0) {
+            writeCachedModuleCatalog(mchannelsBotId, validModules)
+        }
+        return { modules: validModules, rejected, source: 'remote' }
+    } catch (error) {
+        return fallbackToCache(error instanceof Error ? error.message : 'Unknown error')
+    }
 }
 
 /**
- * Add dynamically loaded modules to the modules list
+ * Add dynamically loaded modules to the registry (on top of the default modules).
+ * Dynamic modules with the same name as a default module override it.
  */
 export function addDynamicModules(newModules: Module[]): void {
-    dynamicModules = [...newModules]
-    modules = [...defaultModules, ...dynamicModules]
+    const dynamicNames = new Set(newModules.map((m) => m.name))
+    moduleRegistry.replace([
+        ...defaultModules.filter((m) => !dynamicNames.has(m.name)),
+        ...newModules,
+    ], 'remote')
 }
 
-// Export the modules array (will be updated by addDynamicModules)
-export default modules
+/**
+ * Reset the registry to the default modules only.
+ */
+export function resetModules(): void {
+    moduleRegistry.replace(defaultModules, 'default')
+}
+
+/**
+ * Whether a catalog downloaded for the bot (or the defaults, when `downloadedModules` is empty)
+ * may replace the registry. A catalog imported from a file is only replaced by a download that returned modules.
+ */
+export function canReplaceModuleCatalog(downloadedModules: Module[]): boolean {
+    return downloadedModules.length > 0 || moduleRegistry.getSource() !== 'file'
+}
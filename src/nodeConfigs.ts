@@ -1,6 +1,6 @@
 export interface NodeConfig {
   name: string
-  type: 'single' | 'branching' | 'branchingOutput' | 'inputOnly' | 'outputOnly' | 'sticker'
+  type: 'single' | 'branching' | 'branchingOutput' | 'inputOnly' | 'outputOnly' | 'sticker' | 'unknown'
   description: string
   hasSourceHandles: boolean
   hasTargetHandles: boolean
@@ -139,6 +139,19 @@ export const nodeConfigs: Record<string, NodeConfig> = {
     defaultHeight: 50,
     zIndex: 2,
   },
+  unknown: {
+    name: 'Unknown Module',
+    type: 'unknown',
+    description: 'Imported module whose type is not in the module catalog (kept as-is on export)',
+    hasSourceHandles: true,
+    hasTargetHandles: true,
+    canStartConnection: true,
+    isModuleType: false, // Created on import only, not available as module
+    className: 'unknown-node',
+    defaultWidth: 220,
+    defaultHeight: 80,
+    zIndex: 2,
+  },
 }
 
 export type NodeType = keyof typeof nodeConfigs
@@ -157,6 +170,7 @@ const BRANCHING_LIST_PARAM_NODE_TYPE: NodeType = 'branchingListParam'
 const BRANCHING_OUTPUT_INTERNAL_NODE_TYPE: NodeType = 'branchingOutputInternal'
 const BRANCHING_OUTPUT_LIST_PARAM_NODE_TYPE: NodeType = 'branchingOutputListParam'
 const SINGLE_NODE_TYPE: NodeType = 'single'
+const UNKNOWN_NODE_TYPE: NodeType = 'unknown'
 
 // Helper to check if a node type is branching (either internal or listParam)
 export const isBranchingNodeType = (nodeType: NodeType): boolean => {
@@ -190,6 +204,11 @@ export const isSingleNodeType = (nodeType: NodeType): boolean => {
   return nodeType === SINGLE_NODE_TYPE
 }
 
+// Helper to check if a node type is an unknown (imported, not in catalog) module
+export const isUnknownNodeType = (nodeType: NodeType | undefined): boolean => {
+  return nodeType === UNKNOWN_NODE_TYPE
+}
+
 // Export constants for use in node creation
 export const NODE_TYPES = {
   BRANCHING_INTERNAL: BRANCHING_INTERNAL_NODE_TYPE,
@@ -197,6 +216,7 @@ export const NODE_TYPES = {
   BRANCHING_OUTPUT_INTERNAL: BRANCHING_OUTPUT_INTERNAL_NODE_TYPE,
   BRANCHING_OUTPUT_LIST_PARAM: BRANCHING_OUTPUT_LIST_PARAM_NODE_TYPE,
   SINGLE: SINGLE_NODE_TYPE,
+  UNKNOWN: UNKNOWN_NODE_TYPE,
 } as const
 
 export default nodeConfigs
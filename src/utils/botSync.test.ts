@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { type Node, type Edge } from 'reactflow'
+import testComplex from '../../test-complex.json'
+import { exportFlowToJson } from './exportHelpers'
+import { translateCustomToReactFlow, translateReactFlowToCustom, type CustomFlowJson } from './translationHelpers'
+import { createHttpBotSyncAdapter, createMockBotSyncAdapter, saveBotVersion } from './botSync'
+
+const BOT_ID = 'bot-1'
+
+// test-complex.json with backend fields the editor does not manage and a module missing from the catalog
+const createRemoteFlow = (): CustomFlowJson => {
+  const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+  const modules = flow.current_bot_version.dialog.modules
+  modules.legacy_1 = {
+    type: 'Legacy Lookup',
+    params: { table: 'customers' },
+    handlers: { found: 'type_1_11' },
+    source: { path: 'legacy/lookup', unpack_params: false },
+  }
+  Object.assign(modules.type_1_2, { retry_policy: { attempts: 3 } })
+  return flow
+}
+
+// What the editor saves after loading `flow`: through the canvas and the node export, as useBotSync does
+const throughEditor = (flow: CustomFlowJson): CustomFlowJson => {
+  const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+  return translateReactFlowToCustom(exportFlowToJson(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[]), metadata)
+}
+
+const getModulesWithoutLayout = (flow: CustomFlowJson) => {
+  const modules = JSON.parse(JSON.stringify(flow.current_bot_version.dialog.modules)) as Record<string, { _editor?: unknown }>
+  Object.values(modules).forEach((module) => delete module._editor)
+  return modules
+}
+
+const clock = () => {
+  let minute = 0
+  return () => new Date(Date.UTC(2024, 0, 1, 12, minute++))
+}
+
+describe('saveBotVersion', () => {
+  it('pushes a new bot version that pulls back unchanged', async () => {
+    const adapter = createMockBotSyncAdapter([], clock())
+    const flow = createRemoteFlow()
+
+    const result = await saveBotVersion(adapter, BOT_ID, throughEditor(flow))
+    expect(result.status).toBe('saved')
+    if (result.status !== 'saved') return
+
+    const versions = await adapter.listVersions(BOT_ID)
+    expect(versions).toHaveLength(1)
+    expect(versions[0]).toMatchObject({ id: result.flow.current_bot_version.id, isCurrent: true })
+
+    const pulled = await adapter.loadVersion(BOT_ID, versions[0].id)
+    expect(pulled.current_bot_version_id).toBe(versions[0].id)
+    expect(getModulesWithoutLayout(pulled)).toEqual(getModulesWithoutLayout(flow))
+  })
+
+  it('saves on top of the version the flow was pulled from', async () => {
+    const adapter = createMockBotSyncAdapter([], clock())
+    await saveBotVersion(adapter, BOT_ID, throughEditor(createRemoteFlow()))
+    const [current] = await adapter.listVersions(BOT_ID)
+
+    const pulled = await adapter.loadVersion(BOT_ID, current.id)
+    const result = await saveBotVersion(adapter, BOT_ID, throughEditor(pulled))
+
+    expect(result.status).toBe('saved')
+    const versions = await adapter.listVersions(BOT_ID)
+    expect(versions).toHaveLength(2)
+    expect(versions.find((version) => version.isCurrent)?.id).not.toBe(current.id)
+  })
+
+  it('refuses a save when another version was pushed since the flow was pulled', async () => {
+    const adapter = createMockBotSyncAdapter([], clock())
+    await saveBotVersion(adapter, BOT_ID, throughEditor(createRemoteFlow()))
+    const [first] = await adapter.listVersions(BOT_ID)
+    const pulled = await adapter.loadVersion(BOT_ID, first.id)
+
+    const other = await saveBotVersion(adapter, BOT_ID, throughEditor(pulled))
+    const stale = await saveBotVersion(adapter, BOT_ID, throughEditor(pulled))
+
+    expect(other.status).toBe('saved')
+    expect(stale.status).toBe('conflict')
+    if (other.status !== 'saved' || stale.status !== 'conflict') return
+    expect(stale.remote).toMatchObject({ id: other.flow.current_bot_version.id, isCurrent: true })
+    expect(await adapter.listVersions(BOT_ID)).toHaveLength(2)
+
+    const forced = await saveBotVersion(adapter, BOT_ID, throughEditor(pulled), true)
+    expect(forced.status).toBe('saved')
+  })
+
+  it('lets only one of two saves from the same version win', async () => {
+    const adapter = createMockBotSyncAdapter([], clock())
+    await saveBotVersion(adapter, BOT_ID, throughEditor(createRemoteFlow()))
+    const [first] = await adapter.listVersions(BOT_ID)
+    const pulled = throughEditor(await adapter.loadVersion(BOT_ID, first.id))
+
+    const results = await Promise.all([saveBotVersion(adapter, BOT_ID, pulled), saveBotVersion(adapter, BOT_ID, pulled)])
+
+    expect(results.map((result) => result.status).sort()).toEqual(['conflict', 'saved'])
+  })
+
+  it('refuses a flow that was never pulled from an existing bot', async () => {
+    const adapter = createMockBotSyncAdapter([], clock())
+    await saveBotVersion(adapter, BOT_ID, throughEditor(createRemoteFlow()))
+
+    const result = await saveBotVersion(adapter, BOT_ID, throughEditor(testComplex as unknown as CustomFlowJson))
+
+    expect(result.status).toBe('conflict')
+  })
+})
+
+describe('createHttpBotSyncAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends the expected current version with the new version and reports a 409 as a conflict', async () => {
+    const remoteVersion = { id: 'v2', name: 'Remote', created_at: '2024-01-02', updated_at: '2024-01-03' }
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(remoteVersion), { status: 409 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const adapter = createHttpBotSyncAdapter('http://bots.test')
+    const flow = testComplex as unknown as CustomFlowJson
+
+    const result = await adapter.createVersion(BOT_ID, flow.current_bot_version, { id: 'v1', updated_at: '2024-01-01' })
+
+    expect(result).toEqual({ status: 'conflict', remote: { ...remoteVersion, isCurrent: true } })
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://bots.test/bots/bot-1/versions')
+    expect(JSON.parse(String(init.body))).toEqual({
+      current_bot_version: flow.current_bot_version,
+      expected_current_version: { id: 'v1', updated_at: '2024-01-01' },
+    })
+  })
+})
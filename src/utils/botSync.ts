@@ -0,0 +1,248 @@
+import type { CurrentBotVersion, CustomFlowJson, CustomFlowMetadata } from './translationHelpers'
+import { isPlainObject } from './typeGuards'
+
+/**
+ * Push/pull of bot versions against the bot API. CustomFlowJson is a bot record: the bot ids plus its
+ * current_bot_version. The editor only talks to a BotSyncAdapter, so the HTTP client can be swapped for
+ * the in-memory mock server (when VITE_BOT_API_URL is not set, and in tests).
+ */
+
+export interface BotVersionSummary {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+  // The bot's current_bot_version_id points to this version
+  isCurrent: boolean
+}
+
+export interface BotSyncAdapter {
+  // Shown in the Bot versions dialog
+  label: string
+  // Newest first; an unknown bot has no versions
+  listVersions: (botId: string) => Promise<BotVersionSummary[]>
+  // The bot record with the requested version as current_bot_version
+  loadVersion: (botId: string, versionId: string) => Promise<CustomFlowJson>
+  // Store a new version and make it the bot's current version, in one step with the check that the bot's
+  // current version is still `expectedBase` (skipped when it is not given)
+  createVersion: (botId: string, version: CurrentBotVersion, expectedBase?: BotVersionBase) => Promise<BotVersionSaveResult>
+}
+
+// Version a new version is based on; an empty id means the flow was never loaded from the bot
+export interface BotVersionBase {
+  id: string
+  updated_at: string
+}
+
+export type BotVersionSaveResult =
+  // The updated bot record
+  | { status: 'saved'; flow: CustomFlowJson }
+  // The bot's current version changed since the flow was loaded
+  | { status: 'conflict'; remote: BotVersionSummary }
+
+const readString = (record: Record<string, unknown>, key: string): string => {
+  const value = record[key]
+  return typeof value === 'string' ? value : ''
+}
+
+const toVersionSummary = (version: Record<string, unknown>, currentVersionId: string): BotVersionSummary => ({
+  id: readString(version, 'id'),
+  name: readString(version, 'name'),
+  created_at: readString(version, 'created_at'),
+  updated_at: readString(version, 'updated_at'),
+  isCurrent: readString(version, 'id') === currentVersionId,
+})
+
+const byNewestFirst = (a: BotVersionSummary, b: BotVersionSummary): number => {
+  return b.created_at.localeCompare(a.created_at)
+}
+
+export const getBotApiUrl = (): string => {
+  return (import.meta.env.VITE_BOT_API_URL ?? '').replace(/\/+$/, '')
+}
+
+/**
+ * Bot the flow was loaded from or last saved to (current_bot_version.bot_id of the imported record).
+ */
+export const getFlowBotId = (metadata: CustomFlowMetadata): string => {
+  const botId = metadata.preserved?.current_bot_version?.bot_id
+  return typeof botId === 'string' ? botId : ''
+}
+
+/**
+ * Client for the bot API:
+ * - GET  <url>/bots/<bot_id>                  the bot record (current_bot_version_id, ...)
+ * - GET  <url>/bots/<bot_id>/versions         array of versions
+ * - GET  <url>/bots/<bot_id>/versions/<id>    one version
+ * - POST <url>/bots/<bot_id>/versions         create a version, returns the bot record. The body is
+ *   { current_bot_version, expected_current_version }; when expected_current_version ({ id, updated_at } or null)
+ *   is set and the bot's current version differs, the server answers 409 with its current version.
+ */
+export const createHttpBotSyncAdapter = (baseUrl: string): BotSyncAdapter => {
+  const request = async (path: string, init?: RequestInit): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { Accept: 'application/json', ...(init?.body ? { 'Content-Type': 'application/json' } : {}) },
+    })
+    if (!response.ok) {
+      throw new Error(`Bot API request failed with status ${response.status}`)
+    }
+    return response.json()
+  }
+
+  const botPath = (botId: string) => `/bots/${encodeURIComponent(botId)}`
+
+  const requestBot = async (botId: string): Promise<Record<string, unknown>> => {
+    const bot = await request(botPath(botId))
+    if (!isPlainObject(bot)) throw new Error('Bot API returned an invalid bot record')
+    return bot
+  }
+
+  const toBotRecord = (bot: unknown): CustomFlowJson => {
+    if (!isPlainObject(bot) || !isPlainObject(bot.current_bot_version) || !isPlainObject(bot.current_bot_version.dialog)) {
+      throw new Error('Bot API returned a bot record without current_bot_version.dialog')
+    }
+    return bot as unknown as CustomFlowJson
+  }
+
+  return {
+    label: baseUrl,
+    listVersions: async (botId) => {
+      const [bot, versions] = await Promise.all([requestBot(botId), request(`${botPath(botId)}/versions`)])
+      if (!Array.isArray(versions)) throw new Error('Bot API returned an invalid version list')
+      const currentVersionId = readString(bot, 'current_bot_version_id')
+      return versions
+        .filter(isPlainObject)
+        .map((version) => toVersionSummary(version, currentVersionId))
+        .sort(byNewestFirst)
+    },
+    loadVersion: async (botId, versionId) => {
+      const [bot, version] = await Promise.all([
+        requestBot(botId),
+        request(`${botPath(botId)}/versions/${encodeURIComponent(versionId)}`),
+      ])
+      return toBotRecord({ ...bot, current_bot_version: version })
+    },
+    createVersion: async (botId, version, expectedBase) => {
+      const response = await fetch(`${baseUrl}${botPath(botId)}/versions`, {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ current_bot_version: version, expected_current_version: expectedBase ?? null }),
+      })
+      if (response.status === 409) {
+        const remote = await response.json()
+        if (!isPlainObject(remote)) throw new Error('Bot API returned an invalid conflicting version')
+        return { status: 'conflict', remote: { ...toVersionSummary(remote, ''), isCurrent: true } }
+      }
+      if (!response.ok) {
+        throw new Error(`Bot API request failed with status ${response.status}`)
+      }
+      return { status: 'saved', flow: toBotRecord(await response.json()) }
+    },
+  }
+}
+
+interface MockBot {
+  record: Omit<CustomFlowJson, 'current_bot_version'>
+  versions: CurrentBotVersion[]
+}
+
+/**
+ * In-memory stand-in for the bot API. Bots are created on their first saved version; `seed` adds existing
+ * bot records. Records are copied in and out, as they would be over the network.
+ */
+export const createMockBotSyncAdapter = (
+  seed: CustomFlowJson[] = [],
+  now: () => Date = () => new Date()
+): BotSyncAdapter => {
+  const bots = new Map<string, MockBot>()
+  let nextVersionNumber = 1
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+  seed.forEach(({ current_bot_version, ...record }) => {
+    const botId = current_bot_version.bot_id || record.id
+    bots.set(botId, { record: copy({ ...record, id: botId }), versions: [copy(current_bot_version)] })
+  })
+
+  const getBot = (botId: string): MockBot => {
+    const bot = bots.get(botId)
+    if (!bot) throw new Error(`Bot ${botId} not found`)
+    return bot
+  }
+
+  const toRecord = (bot: MockBot, version: CurrentBotVersion): CustomFlowJson => {
+    return copy({ ...bot.record, current_bot_version: version })
+  }
+
+  return {
+    label: 'Local mock server',
+    listVersions: async (botId) => {
+      const bot = bots.get(botId)
+      if (!bot) return []
+      return bot.versions
+        .map((version) => toVersionSummary(version, bot.record.current_bot_version_id))
+        .sort(byNewestFirst)
+    },
+    loadVersion: async (botId, versionId) => {
+      const bot = getBot(botId)
+      const version = bot.versions.find((candidate) => candidate.id === versionId)
+      if (!version) throw new Error(`Version ${versionId} of bot ${botId} not found`)
+      return toRecord(bot, version)
+    },
+    createVersion: async (botId, version, expectedBase) => {
+      const existing = bots.get(botId)
+      const current = existing?.versions.find((candidate) => candidate.id === existing.record.current_bot_version_id)
+      if (expectedBase && current && (current.id !== expectedBase.id || current.updated_at !== expectedBase.updated_at)) {
+        return { status: 'conflict', remote: toVersionSummary(current, current.id) }
+      }
+      const timestamp = now().toISOString()
+      const bot = existing ?? {
+        record: { account_id: '', current_bot_version_id: '', created_at: timestamp, id: botId, labels: [] },
+        versions: [],
+      }
+      const created: CurrentBotVersion = {
+        ...copy(version),
+        id: `mock-version-${nextVersionNumber++}`,
+        bot_id: botId,
+        created_at: timestamp,
+        updated_at: timestamp,
+      }
+      bot.versions.push(created)
+      bot.record = { ...bot.record, current_bot_version_id: created.id }
+      bots.set(botId, bot)
+      return { status: 'saved', flow: toRecord(bot, created) }
+    },
+  }
+}
+
+let defaultAdapter: BotSyncAdapter | null = null
+
+/**
+ * The HTTP client when VITE_BOT_API_URL is set, otherwise one shared mock server for the session.
+ */
+export const getBotSyncAdapter = (): BotSyncAdapter => {
+  if (!defaultAdapter) {
+    const baseUrl = getBotApiUrl()
+    defaultAdapter = baseUrl ? createHttpBotSyncAdapter(baseUrl) : createMockBotSyncAdapter()
+  }
+  return defaultAdapter
+}
+
+/**
+ * Save the flow as a new version of the bot. Unless forced, the save is refused when the bot's current
+ * version is no longer the one the flow was loaded from (another version was pushed, or it was updated
+ * since - its updated_at differs). A flow that was never loaded from the bot conflicts with any existing version.
+ * The check is done by the server together with the save, so two saves from the same version cannot both win.
+ */
+export async function saveBotVersion(
+  adapter: BotSyncAdapter,
+  botId: string,
+  flow: CustomFlowJson,
+  force = false
+): Promise<BotVersionSaveResult> {
+  const base = flow.current_bot_version
+  // The server assigns the id and timestamps of the new version
+  const version: CurrentBotVersion = { ...base, id: '', bot_id: botId, created_at: '', updated_at: '' }
+  const expectedBase: BotVersionBase | undefined = force ? undefined : { id: base.id, updated_at: base.updated_at }
+  return adapter.createVersion(botId, version, expectedBase)
+}
@@ -1,12 +1,12 @@
 import { type Node } from 'reactflow'
 import { type NodeType, isBranchingNodeType, isBranchingOutputNodeType, NODE_TYPES, nodeConfigs, canOutputNodeBeDeleted } from '../nodeConfigs'
-import modules from '../modules'
+import { moduleRegistry, type Module } from '../modules'
 import { createNodeFromConfig } from './nodeCreation'
 import { getBranchingLayoutConstants, calculateOutputNodePosition, repositionOutputNodes } from './branchingNodeHelpers'
 import { getDefaultValueForType } from './configHelpers'
 
 // Helper to get output node params based on module config
-export const getOutputNodeParams = (branchingModule: typeof modules[0] | undefined, index: number): Record<string, any> => {
+export const getOutputNodeParams = (branchingModule: Module | undefined, index: number): Record<string, any> => {
   const outputParams: Record<string, any> = {}
 
   if (branchingModule?.outputConfig) {
@@ -32,7 +32,7 @@ export const createOutputNodes = (
 ): Node[] => {
   const nodesToAdd: Node[] = []
   const branchingPos = branchingNode.position || { x: 0, y: 0 }
-  const branchingModule = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+  const branchingModule = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
 
   // Get the output node type from branching node config
   const branchingNodeType = branchingNode.data?.nodeType as NodeType | undefined
@@ -102,7 +102,7 @@ export const removeOutputNodes = (
     const branchingNode = updatedNodes.find((n) => n.id === parentId)
     if (!branchingNode) return
 
-    const module = branchingNode.data?.moduleName ? modules.find((m) => m.name === branchingNode.data.moduleName) : undefined
+    const module = branchingNode.data?.moduleName ? moduleRegistry.byName(branchingNode.data.moduleName) : undefined
     if (!module?.outputConfig || module.outputConfig.type !== 'listParam') return
 
     // Get remaining output nodes (after deletion)
@@ -0,0 +1,33 @@
+import type { Module } from '../modules'
+
+/**
+ * Channels a bot version can be deployed to (current_bot_version.channel). Channel-specific
+ * settings live under omnichannel_config.<channel>.
+ */
+
+export type ChannelName = 'voice' | 'chat' | 'sms'
+
+export const CHANNELS: ChannelName[] = ['voice', 'chat', 'sms']
+
+export const DEFAULT_CHANNEL: ChannelName = 'voice'
+
+export const CHANNEL_LABELS: Record<ChannelName, string> = {
+  voice: 'Voice',
+  chat: 'Chat',
+  sms: 'SMS',
+}
+
+// Length of a single SMS segment (GSM-7 alphabet)
+export const SMS_SEGMENT_LENGTH = 160
+
+export const isKnownChannel = (channel: unknown): channel is ChannelName => {
+  return typeof channel === 'string' && (CHANNELS as string[]).includes(channel)
+}
+
+/**
+ * Whether a module can run on the channel. Modules without a `channels` list run everywhere.
+ */
+export const isModuleAvailableOnChannel = (module: Module | undefined, channel: string | undefined): boolean => {
+  if (!module?.channels || !channel) return true
+  return module.channels.includes(channel)
+}
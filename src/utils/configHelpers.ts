@@ -38,6 +38,20 @@ export const getDefaultValueForType = (typeStr: string | undefined): any => {
   return ''
 }
 
+/**
+ * Default value for a new param: the param's own `default` if declared, otherwise the type default.
+ * Object defaults are copied so nodes never share the same array/object.
+ *
+ * @param param - The parameter definition
+ * @returns The initial value for the parameter
+ */
+export const getParamDefaultValue = (param: Param | undefined): unknown => {
+  if (param?.default === undefined) return getDefaultValueForType(param?.type)
+  return typeof param.default === 'object' && param.default !== null
+    ? JSON.parse(JSON.stringify(param.default))
+    : param.default
+}
+
 /**
  * Centralized helper to check if a value is empty.
  * Checks for null, undefined, empty string, empty array, and empty object.
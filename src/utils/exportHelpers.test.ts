@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { type Node, type Edge } from 'reactflow'
+import testComplex from '../../test-complex.json'
+import { exportFlowToJson } from './exportHelpers'
+import { translateCustomToReactFlow, translateReactFlowToCustom, type CustomFlowJson } from './translationHelpers'
+
+// test-complex.json with a module type the catalog does not know, wired in both directions
+const withUnknownModule = (): CustomFlowJson => {
+  const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+  const modules = flow.current_bot_version.dialog.modules
+  modules.legacy_1 = {
+    type: 'Legacy Lookup',
+    version: 3,
+    params: { table: 'customers', retries: 2 },
+    handlers: { found: 'type_1_11', missing: '', error: 'gone_module' },
+    source: { path: 'legacy/lookup', unpack_params: false },
+  }
+  modules.type_1_12.handlers = { node_exit: 'legacy_1' }
+  return flow
+}
+
+// test-complex.json with backend fields the editor does not manage, on modules and on the flow
+const withExtraFields = (): CustomFlowJson => {
+  const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+  const modules = flow.current_bot_version.dialog.modules as unknown as Record<string, Record<string, unknown>>
+  modules.type_1_2.retry_policy = { attempts: 3, backoff_ms: 250 }
+  modules.branching_1.comment = 'Main menu'
+  modules.type_1_15.tags = ['end']
+  Object.assign(flow.current_bot_version.dialog, { fallback_module: 'type_1_15' })
+  Object.assign(flow.current_bot_version, { revision: 7 })
+  return flow
+}
+
+const withoutLayout = (flow: CustomFlowJson): CustomFlowJson => {
+  const copy = JSON.parse(JSON.stringify(flow)) as CustomFlowJson
+  const dialog = copy.current_bot_version.dialog as CustomFlowJson['current_bot_version']['dialog'] & { _editor?: unknown }
+  delete dialog._editor
+  Object.values(dialog.modules).forEach((module) => {
+    delete (module as { _editor?: unknown })._editor
+  })
+  return copy
+}
+
+describe('exportFlowToJson', () => {
+  it('keeps module fields the editor does not manage', () => {
+    const flow = withExtraFields()
+    const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+
+    const exported = exportFlowToJson(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[])
+    expect(exported.nodes.find((node) => node.id === 'branching_1')?.data.extraFields).toEqual({ comment: 'Main menu' })
+
+    expect(withoutLayout(translateReactFlowToCustom(exported, metadata))).toEqual(withoutLayout(flow))
+  })
+
+  it('keeps unknown modules when the export is read back', () => {
+    const flow = withUnknownModule()
+    const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+
+    const exported = exportFlowToJson(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[])
+    const unknownNode = exported.nodes.find((node) => node.id === 'legacy_1')
+    expect(unknownNode?.data.nodeType).toBe('unknown')
+    expect(unknownNode?.data.unknownModule).toMatchObject({ type: 'Legacy Lookup', version: 3 })
+
+    const { modules } = translateReactFlowToCustom(exported, metadata).current_bot_version.dialog
+    const legacyModule = { ...modules.legacy_1 } as typeof modules.legacy_1 & { _editor?: unknown }
+    delete legacyModule._editor
+    expect(legacyModule).toEqual(flow.current_bot_version.dialog.modules.legacy_1)
+    expect(modules.type_1_12.handlers).toEqual({ node_exit: 'legacy_1' })
+  })
+
+  it('keeps the node type of branching and output nodes', () => {
+    const { reactFlowData } = translateCustomToReactFlow(testComplex as unknown as CustomFlowJson)
+    const exported = exportFlowToJson(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[])
+    exported.nodes.forEach((node) => {
+      const original = reactFlowData.nodes.find((n) => n.id === node.id)
+      expect(node.data.nodeType).toBe(original?.data?.nodeType)
+    })
+  })
+})
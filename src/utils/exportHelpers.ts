@@ -1,19 +1,31 @@
 import { type Node, type Edge } from 'reactflow'
-import { type NodeType } from '../nodeConfigs'
+import { type NodeType, isBranchingNodeType } from '../nodeConfigs'
 
 // Export node data to JSON format (only module logic, no config)
 export const exportNodeToJson = (node: Node): any => {
   const nodeType = node.data?.nodeType as NodeType | undefined
+  // Branching nodes are sized to their outputs; the size is kept in the dialog layout (_editor)
+  const width = typeof node.style?.width === 'number' ? node.style.width : node.width
+  const height = typeof node.style?.height === 'number' ? node.style.height : node.height
+  const hasSize = !!nodeType && isBranchingNodeType(nodeType) && typeof width === 'number' && typeof height === 'number'
   return {
     id: node.id,
     type: nodeType || 'single', // Use actual nodeType instead of 'nodeFactory'
     position: node.position,
     data: {
       moduleName: node.data?.moduleName,
+      ...(nodeType && { nodeType }),
       params: node.data?.params || {},
       ...(node.data?.parentNodeId && { parentNodeId: node.data.parentNodeId }),
       ...(node.data?.outputCount !== undefined && { outputCount: node.data.outputCount }),
+      ...(node.data?.outputIndex !== undefined && { outputIndex: node.data.outputIndex }),
+      ...(node.data?.importedHandlers && { importedHandlers: node.data.importedHandlers }),
+      // Modules missing from the catalog keep their original definition
+      ...(node.data?.unknownModule && { unknownModule: node.data.unknownModule }),
+      // Module fields the editor does not manage (see translationHelpers MANAGED_MODULE_FIELDS)
+      ...(node.data?.extraFields && { extraFields: node.data.extraFields }),
     },
+    ...(hasSize && { width, height }),
   }
 }
 
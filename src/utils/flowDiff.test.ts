@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { type Node, type Edge } from 'reactflow'
+import testComplex from '../../test-complex.json'
+import { translateCustomToReactFlow, type CustomFlowJson } from './translationHelpers'
+import { buildDiffDialog, diffDialogs, getFlowDiffHighlights } from './flowDiff'
+
+// test-complex.json on the canvas, with an unknown module and an unmanaged module field
+const loadFlow = () => {
+  const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+  const modules = flow.current_bot_version.dialog.modules
+  modules.legacy_1 = {
+    type: 'Legacy Lookup',
+    params: { table: 'customers' },
+    handlers: { found: 'type_1_11' },
+    source: { path: 'legacy/lookup', unpack_params: false },
+  }
+  modules.type_1_15.handlers = { node_exit: 'legacy_1' }
+  Object.assign(modules.type_1_2, { retry_policy: { attempts: 3 } })
+  const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+  return { nodes: reactFlowData.nodes as Node[], edges: reactFlowData.edges as Edge[], metadata }
+}
+
+describe('flow diff', () => {
+  it('finds no changes between a flow and the same flow on the canvas', () => {
+    const base = loadFlow()
+    const current = loadFlow()
+
+    const diff = diffDialogs(
+      buildDiffDialog(base.nodes, base.edges, base.metadata),
+      buildDiffDialog(current.nodes, current.edges, current.metadata)
+    )
+
+    expect(diff.modules).toEqual([])
+    expect(diff.rootModule).toBeUndefined()
+  })
+
+  it('marks removed modules with ghost nodes at their base position', () => {
+    const base = loadFlow()
+    const current = loadFlow()
+    const nodes = current.nodes.filter((node) => node.id !== 'legacy_1')
+    const edges = current.edges.filter((edge) => edge.source !== 'legacy_1' && edge.target !== 'legacy_1')
+    const baseDialog = buildDiffDialog(base.nodes, base.edges, base.metadata)
+    const currentDialog = buildDiffDialog(nodes, edges, current.metadata)
+
+    const diff = diffDialogs(baseDialog, currentDialog)
+    const highlights = getFlowDiffHighlights(diff, baseDialog, currentDialog, nodes, edges, base.nodes)
+
+    expect(diff.modules.find((module) => module.moduleId === 'legacy_1')?.status).toBe('removed')
+    expect(highlights.removedNodes).toHaveLength(1)
+    const [ghost] = highlights.removedNodes
+    expect(ghost.position).toEqual(base.nodes.find((node) => node.id === 'legacy_1')?.position)
+    expect(ghost.className).toBe('flow-diff-node--removed')
+    // Its connections in and out are shown as removed edges
+    expect(highlights.removedEdges.map((edge) => [edge.source, edge.target])).toEqual(
+      expect.arrayContaining([
+        ['type_1_15', ghost.id],
+        [ghost.id, 'type_1_11'],
+      ])
+    )
+  })
+})
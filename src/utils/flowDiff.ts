@@ -0,0 +1,267 @@
+import type { Node, Edge } from 'reactflow'
+import { exportFlowToJson } from './exportHelpers'
+import { isStartNode } from './moduleHelpers'
+import {
+  buildDialogFromReactFlow,
+  type CustomFlowMetadata,
+  type DialogConfig,
+  type DialogModule,
+} from './translationHelpers'
+
+/**
+ * Differences between two dialogs (e.g. a file or a bot version vs the current canvas): added, removed and
+ * changed modules, their params and handler rewiring, and the matching highlights on the canvas.
+ * Layout (`_editor`) is not compared.
+ */
+
+export type FlowDiffStatus = 'added' | 'removed' | 'changed'
+
+export interface ParamDiff {
+  name: string
+  status: FlowDiffStatus
+}
+
+export interface HandlerDiff {
+  handler: string
+  // Target module in the base / current dialog ('' when not connected or missing)
+  from: string
+  to: string
+}
+
+export interface ModuleDiff {
+  moduleId: string
+  status: FlowDiffStatus
+  type: string
+  // Module fields that differ besides params and handlers (type, version, source, ...)
+  changedFields: string[]
+  params: ParamDiff[]
+  handlers: HandlerDiff[]
+}
+
+export interface FlowDiff {
+  modules: ModuleDiff[]
+  // Root module when it changed
+  rootModule?: { from: string; to: string }
+  unchangedCount: number
+}
+
+export interface FlowDiffHighlights {
+  nodes: Map<string, FlowDiffStatus>
+  edges: Map<string, FlowDiffStatus>
+  // Ghost nodes of removed modules, where they were in the base flow
+  removedNodes: Node[]
+  // Connections of the base dialog that are gone (to nodes on the canvas or ghost nodes)
+  removedEdges: Edge[]
+}
+
+const COMPARED_MODULE_FIELDS_EXCLUDED = ['params', 'handlers', '_editor']
+
+// JSON with sorted object keys, so key order does not count as a change
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b)
+
+const diffRecords = (base: Record<string, unknown>, current: Record<string, unknown>): ParamDiff[] => {
+  const names = Array.from(new Set([...Object.keys(base), ...Object.keys(current)]))
+  return names.flatMap((name): ParamDiff[] => {
+    if (!(name in base)) return [{ name, status: 'added' }]
+    if (!(name in current)) return [{ name, status: 'removed' }]
+    return isSameValue(base[name], current[name]) ? [] : [{ name, status: 'changed' }]
+  })
+}
+
+const diffHandlers = (base: Record<string, string>, current: Record<string, string>): HandlerDiff[] => {
+  const handlers = Array.from(new Set([...Object.keys(base), ...Object.keys(current)]))
+  return handlers
+    .map((handler) => ({ handler, from: base[handler] ?? '', to: current[handler] ?? '' }))
+    .filter((change) => change.from !== change.to)
+}
+
+const getChangedFields = (base: DialogModule, current: DialogModule): string[] => {
+  const fields = Array.from(new Set([...Object.keys(base), ...Object.keys(current)]))
+  return fields.filter(
+    (field) =>
+      !COMPARED_MODULE_FIELDS_EXCLUDED.includes(field) &&
+      !isSameValue(base[field as keyof DialogModule], current[field as keyof DialogModule])
+  )
+}
+
+/**
+ * Dialog of a flow for diffing. Both sides go through the node export, as the editor saves the flow,
+ * so only real changes show up.
+ */
+export const buildDiffDialog = (nodes: Node[], edges: Edge[], metadata: CustomFlowMetadata): DialogConfig => {
+  return buildDialogFromReactFlow(exportFlowToJson(nodes, edges), metadata)
+}
+
+/**
+ * Compare the base dialog with the current one. Modules are matched by id.
+ */
+export const diffDialogs = (base: DialogConfig, current: DialogConfig): FlowDiff => {
+  const moduleIds = Array.from(new Set([...Object.keys(base.modules), ...Object.keys(current.modules)]))
+  const modules: ModuleDiff[] = []
+  let unchangedCount = 0
+
+  moduleIds.forEach((moduleId) => {
+    const baseModule = base.modules[moduleId]
+    const currentModule = current.modules[moduleId]
+    if (!baseModule || !currentModule) {
+      const module = (currentModule ?? baseModule) as DialogModule
+      modules.push({
+        moduleId,
+        status: currentModule ? 'added' : 'removed',
+        type: module.type,
+        changedFields: [],
+        params: [],
+        handlers: [],
+      })
+      return
+    }
+
+    const changedFields = getChangedFields(baseModule, currentModule)
+    const params = diffRecords(baseModule.params ?? {}, currentModule.params ?? {})
+    const handlers = diffHandlers(baseModule.handlers ?? {}, currentModule.handlers ?? {})
+    if (changedFields.length === 0 && params.length === 0 && handlers.length === 0) {
+      unchangedCount += 1
+      return
+    }
+    modules.push({ moduleId, status: 'changed', type: currentModule.type, changedFields, params, handlers })
+  })
+
+  return {
+    modules,
+    ...(base.root_module !== current.root_module
+      ? { rootModule: { from: base.root_module, to: current.root_module } }
+      : {}),
+    unchangedCount,
+  }
+}
+
+// Connections as "<module>-><target>"; the root module is connected from the Start node
+const START_CONNECTION_SOURCE = '__start__'
+
+const getConnections = (dialog: DialogConfig): Set<string> => {
+  const connections = new Set<string>()
+  if (dialog.root_module) connections.add(`${START_CONNECTION_SOURCE}->${dialog.root_module}`)
+  Object.entries(dialog.modules).forEach(([moduleId, module]) => {
+    Object.values(module.handlers ?? {}).forEach((target) => {
+      if (target) connections.add(`${moduleId}->${target}`)
+    })
+  })
+  return connections
+}
+
+const getRemovedNodeId = (moduleId: string): string => `flow-diff-removed-${moduleId}`
+
+/**
+ * Canvas highlights for a diff: added/changed modules (branching outputs follow their parent) and
+ * connections, plus ghost nodes for the removed modules (at their position in `baseNodes`) and ghost
+ * edges for the removed connections.
+ */
+export const getFlowDiffHighlights = (
+  diff: FlowDiff,
+  base: DialogConfig,
+  current: DialogConfig,
+  nodes: Node[],
+  edges: Edge[],
+  baseNodes: Node[] = []
+): FlowDiffHighlights => {
+  const moduleStatus = new Map(diff.modules.map((module) => [module.moduleId, module.status]))
+  const startNodeId = nodes.find((node) => isStartNode(node))?.id
+
+  const removedNodes: Node[] = diff.modules
+    .filter((module) => module.status === 'removed')
+    .map((module) => ({
+      id: getRemovedNodeId(module.moduleId),
+      type: 'default',
+      position: baseNodes.find((node) => node.id === module.moduleId)?.position ?? { x: 0, y: 0 },
+      data: { label: `${module.moduleId} (${module.type}) - removed` },
+      selectable: false,
+      draggable: false,
+      connectable: false,
+      deletable: false,
+      focusable: false,
+      className: 'flow-diff-node--removed',
+    }))
+  // Removed modules are connected through their ghost nodes
+  const removedNodeIds = new Map(
+    diff.modules
+      .filter((module) => module.status === 'removed')
+      .map((module) => [module.moduleId, getRemovedNodeId(module.moduleId)])
+  )
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  const toCanvasNodeId = (moduleId: string): string | undefined =>
+    nodeIds.has(moduleId) ? moduleId : removedNodeIds.get(moduleId)
+
+  const highlightedNodes = new Map<string, FlowDiffStatus>()
+  nodes.forEach((node) => {
+    const status = moduleStatus.get((node.data?.parentNodeId as string | undefined) ?? node.id)
+    if (status) highlightedNodes.set(node.id, status)
+  })
+
+  const baseConnections = getConnections(base)
+  const currentConnections = getConnections(current)
+  const toConnectionSource = (nodeId: string): string => {
+    if (nodeId === startNodeId) return START_CONNECTION_SOURCE
+    const node = nodes.find((candidate) => candidate.id === nodeId)
+    return (node?.data?.parentNodeId as string | undefined) ?? nodeId
+  }
+
+  const highlightedEdges = new Map<string, FlowDiffStatus>()
+  edges.forEach((edge) => {
+    const source = toConnectionSource(edge.source)
+    const connection = `${source}->${edge.target}`
+    if (!currentConnections.has(connection) || baseConnections.has(connection)) return
+    const isNewModule = moduleStatus.get(source) === 'added' || moduleStatus.get(edge.target) === 'added'
+    highlightedEdges.set(edge.id, isNewModule ? 'added' : 'changed')
+  })
+
+  // Branching modules connect through their output nodes (handler on_<outputIndex>)
+  const getHandlerNodeId = (moduleId: string, handler: string): string | undefined => {
+    const outputIndex = /^on_(\d+)$/.exec(handler)?.[1]
+    const outputNode =
+      outputIndex !== undefined
+        ? nodes.find((node) => node.data?.parentNodeId === moduleId && node.data?.outputIndex === Number(outputIndex))
+        : undefined
+    return outputNode?.id ?? toCanvasNodeId(moduleId)
+  }
+
+  const removedConnections = [
+    {
+      source: startNodeId,
+      connection: `${START_CONNECTION_SOURCE}->${base.root_module}`,
+      target: base.root_module,
+    },
+    ...Object.entries(base.modules).flatMap(([moduleId, module]) =>
+      Object.entries(module.handlers ?? {}).map(([handler, target]) => ({
+        source: getHandlerNodeId(moduleId, handler),
+        connection: `${moduleId}->${target}`,
+        target,
+      }))
+    ),
+  ].filter(
+    ({ source, connection, target }) =>
+      source && target && toCanvasNodeId(target) && !currentConnections.has(connection)
+  )
+
+  const removedEdges: Edge[] = removedConnections.map(({ source, target }, index) => ({
+    id: `flow-diff-removed-edge-${index}`,
+    source: source as string,
+    target: toCanvasNodeId(target) as string,
+    selectable: false,
+    deletable: false,
+    focusable: false,
+    className: 'flow-diff-edge--removed',
+  }))
+
+  return { nodes: highlightedNodes, edges: highlightedEdges, removedNodes, removedEdges }
+}
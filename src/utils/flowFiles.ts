@@ -0,0 +1,98 @@
+import type { Node, Edge } from 'reactflow'
+import { exportFlowToJson } from './exportHelpers'
+import {
+  createEmptyFlowMetadata,
+  translateCustomToReactFlow,
+  translateReactFlowToCustom,
+  type CustomFlowJson,
+  type CustomFlowMetadata,
+  type ReactFlowJson,
+} from './translationHelpers'
+import type { ModuleMigrationReport } from './moduleMigrations'
+import { isPlainObject } from './typeGuards'
+
+/**
+ * Flow files on disk: the dialog JSON the backend uses (CustomFlowJson) or the editor's ReactFlow JSON
+ * (exportFlowToJson, no flow metadata).
+ */
+
+export type FlowFileFormat = 'custom' | 'reactflow'
+
+export const FLOW_FILE_FORMAT_LABELS: Record<FlowFileFormat, string> = {
+  custom: 'Dialog JSON',
+  reactflow: 'ReactFlow JSON',
+}
+
+export interface ParsedFlowFile {
+  format: FlowFileFormat
+  reactFlowData: ReactFlowJson
+  metadata: CustomFlowMetadata
+  migrationReport: ModuleMigrationReport[]
+}
+
+export const detectFlowFileFormat = (parsed: unknown): FlowFileFormat | null => {
+  if (!isPlainObject(parsed)) return null
+  if (isPlainObject(parsed.current_bot_version)) return 'custom'
+  if (Array.isArray(parsed.nodes) && Array.isArray(parsed.edges)) return 'reactflow'
+  return null
+}
+
+/**
+ * Parse the text of a flow file; throws with a readable message when it is not a flow.
+ */
+export const parseFlowFile = (text: string): ParsedFlowFile => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  const format = detectFlowFileFormat(parsed)
+  if (format === 'custom') {
+    const customData = parsed as CustomFlowJson
+    if (!isPlainObject(customData.current_bot_version.dialog)) {
+      throw new Error('Missing or invalid current_bot_version.dialog')
+    }
+    const { reactFlowData, metadata, migrationReport } = translateCustomToReactFlow(customData)
+    return { format, reactFlowData, metadata, migrationReport }
+  }
+  if (format === 'reactflow') {
+    // The ReactFlow format carries no flow settings
+    return { format, reactFlowData: parsed as ReactFlowJson, metadata: createEmptyFlowMetadata(), migrationReport: [] }
+  }
+  throw new Error('Not a flow file: expected current_bot_version (dialog JSON) or nodes and edges (ReactFlow JSON)')
+}
+
+export const serializeFlowFile = (
+  format: FlowFileFormat,
+  nodes: Node[],
+  edges: Edge[],
+  metadata: CustomFlowMetadata
+): string => {
+  const reactFlowData = exportFlowToJson(nodes, edges)
+  const content = format === 'custom' ? translateReactFlowToCustom(reactFlowData, metadata) : reactFlowData
+  return JSON.stringify(content, null, 4)
+}
+
+/**
+ * What a saved file would contain, independent of the format (used to tell whether there are unsaved changes).
+ */
+export const getFlowFileSnapshot = (nodes: Node[], edges: Edge[], metadata: CustomFlowMetadata): string => {
+  return JSON.stringify(translateReactFlowToCustom(exportFlowToJson(nodes, edges), metadata))
+}
+
+export const ensureJsonExtension = (fileName: string): string => {
+  const trimmed = fileName.trim() || 'flow'
+  return /\.json$/i.test(trimmed) ? trimmed : `${trimmed}.json`
+}
+
+export const downloadTextFile = (fileName: string, text: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke after the download has started
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,142 @@
+import nodeConfigs from '../nodeConfigs'
+import type { Module } from '../modules'
+import type { DialogConfig, DialogModule } from './translationHelpers'
+
+/**
+ * Dry run of a flow over its exported DialogConfig (see buildDialogFromReactFlow): starts at the
+ * root module and follows the handlers the tester picks. Modules are keyed by node id, so the
+ * current module can be highlighted on the canvas.
+ */
+
+export interface SimulationStep {
+  moduleId: string
+  // Handler fired to leave the module (unset for the current module)
+  handler?: string
+}
+
+export interface HandlerChoice {
+  handler: string
+  // Output label: list-param value, internal output label or the handler key itself
+  label: string
+  target: string
+  // False when the handler is unset or points at a module missing from the dialog
+  connected: boolean
+}
+
+export type SimulationStatus = 'running' | 'finished' | 'dead-end'
+
+export interface SimulationResult {
+  status: SimulationStatus
+  message: string
+  warnings: string[]
+}
+
+const getModuleMeta = (module: DialogModule | undefined, modules: Module[]): Module | undefined => {
+  return module ? modules.find((m) => m.name === module.type) : undefined
+}
+
+const isExitModule = (module: DialogModule | undefined, modules: Module[]): boolean => {
+  const moduleMeta = getModuleMeta(module, modules)
+  return moduleMeta ? nodeConfigs[moduleMeta.type]?.type === 'inputOnly' : false
+}
+
+export const startSimulation = (dialog: DialogConfig): SimulationStep[] => {
+  return dialog.root_module ? [{ moduleId: dialog.root_module }] : []
+}
+
+/**
+ * Handlers of a module in their dialog order, labelled the way the canvas labels the outputs.
+ */
+export const getHandlerChoices = (dialog: DialogConfig, moduleId: string, modules: Module[]): HandlerChoice[] => {
+  const module = dialog.modules[moduleId]
+  if (!module) return []
+  const moduleMeta = getModuleMeta(module, modules)
+  const outputConfig = moduleMeta?.outputConfig
+
+  return Object.entries(module.handlers ?? {}).map(([handler, target]) => {
+    const outputIndex = /^on_(\d+)$/.test(handler) ? Number(handler.slice(3)) : undefined
+    let label = handler
+    if (outputIndex !== undefined && outputConfig?.type === 'listParam') {
+      const values = module.params?.[outputConfig.listParamName]
+      const value = Array.isArray(values) ? values[outputIndex] : undefined
+      if (value !== undefined && value !== '') label = `${handler}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+    } else if (outputIndex !== undefined && outputConfig?.type === 'internal' && moduleMeta?.outputLabels?.[outputIndex]) {
+      label = `${handler}: ${moduleMeta.outputLabels[outputIndex]}`
+    }
+    return { handler, label, target, connected: !!target && target in dialog.modules }
+  })
+}
+
+export const fireHandler = (dialog: DialogConfig, path: SimulationStep[], handler: string): SimulationStep[] => {
+  const current = path[path.length - 1]
+  const target = current ? dialog.modules[current.moduleId]?.handlers?.[handler] : undefined
+  if (!current || !target) return path
+  return [...path.slice(0, -1), { ...current, handler }, { moduleId: target }]
+}
+
+export const stepBack = (path: SimulationStep[]): SimulationStep[] => {
+  if (path.length <= 1) return path
+  const previous = path[path.length - 2]
+  return [...path.slice(0, -2), { moduleId: previous.moduleId }]
+}
+
+// Modules reachable from a module by following connected handlers (including the module itself)
+const getReachableModules = (dialog: DialogConfig, moduleId: string): Set<string> => {
+  const reachable = new Set([moduleId])
+  const queue = [moduleId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    Object.values(dialog.modules[current]?.handlers ?? {}).forEach((target) => {
+      if (target && target in dialog.modules && !reachable.has(target)) {
+        reachable.add(target)
+        queue.push(target)
+      }
+    })
+  }
+  return reachable
+}
+
+/**
+ * Where the simulation stands: finished at an Exit, stuck at a dead end, or waiting for the next handler.
+ * Warnings flag repeated visits and positions from which no Exit can be reached any more (a loop
+ * the flow can never leave, or a dead end further on).
+ */
+export const getSimulationResult = (dialog: DialogConfig, path: SimulationStep[], modules: Module[]): SimulationResult => {
+  const current = path[path.length - 1]
+  if (!current) {
+    return { status: 'dead-end', message: 'Flow has no root module - connect the Start node', warnings: [] }
+  }
+  const module = dialog.modules[current.moduleId]
+  if (!module) {
+    return { status: 'dead-end', message: `Module "${current.moduleId}" does not exist`, warnings: [] }
+  }
+  if (isExitModule(module, modules)) {
+    return { status: 'finished', message: `Reached Exit after ${path.length - 1} step${path.length === 2 ? '' : 's'}`, warnings: [] }
+  }
+
+  const warnings: string[] = []
+  const visits = path.filter((step) => step.moduleId === current.moduleId).length
+  if (visits > 1) {
+    warnings.push(`Loop: module visited ${visits} times on this path`)
+  }
+
+  const choices = getHandlerChoices(dialog, current.moduleId, modules)
+  if (!choices.some((choice) => choice.connected)) {
+    const message = choices.length === 0 ? 'Dead end: module has no handlers' : 'Dead end: no handler of this module is connected'
+    return { status: 'dead-end', message, warnings }
+  }
+
+  const reachable = getReachableModules(dialog, current.moduleId)
+  if (!Array.from(reachable).some((id) => isExitModule(dialog.modules[id], modules))) {
+    const loopsBack = Array.from(reachable).some((id) =>
+      Object.values(dialog.modules[id]?.handlers ?? {}).includes(current.moduleId)
+    )
+    warnings.push(
+      loopsBack
+        ? 'Infinite loop: no path from here reaches an Exit, but the flow can cycle back to this module'
+        : 'No path from here reaches an Exit - every branch ends in a dead end'
+    )
+  }
+
+  return { status: 'running', message: 'Pick the handler that fires', warnings }
+}
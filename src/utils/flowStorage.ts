@@ -0,0 +1,157 @@
+import type { Node, Edge } from 'reactflow'
+import type { CustomFlowMetadata } from './translationHelpers'
+
+/**
+ * Named flows persisted in the browser: the canvas state of each flow lives in IndexedDB, the
+ * session record (open flow, clean shutdown) in localStorage so it can be written synchronously
+ * while the page unloads.
+ */
+
+export interface StoredFlow {
+  id: string
+  name: string
+  // Epoch milliseconds of the last save
+  updatedAt: number
+  nodes: Node[]
+  edges: Edge[]
+  metadata: CustomFlowMetadata
+}
+
+export interface StoredFlowSummary {
+  id: string
+  name: string
+  updatedAt: number
+  nodeCount: number
+}
+
+export interface FlowSession {
+  // Flow open in the editor
+  flowId: string
+  // False while the editor is open; an unclean session means the page crashed or was killed
+  closedCleanly: boolean
+}
+
+const DB_NAME = 'madn8n'
+const DB_VERSION = 1
+const FLOWS_STORE = 'flows'
+const SESSION_KEY = 'flowSession'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(FLOWS_STORE)) {
+          request.result.createObjectStore(FLOWS_STORE, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      // Allow a later retry (e.g. storage was blocked by another tab)
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+// Run a single request against the flows store and resolve with its result once the transaction completes
+const runRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(FLOWS_STORE, mode)
+        const request = makeRequest(transaction.objectStore(FLOWS_STORE))
+        transaction.oncomplete = () => resolve(request.result)
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+  )
+}
+
+export const isFlowStorageAvailable = (): boolean => typeof indexedDB !== 'undefined'
+
+export const createFlowId = (): string => {
+  return `flow_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Canvas state as it is stored: plain data only (no callbacks) and no transient selection/drag state.
+ */
+export const createStoredFlow = (
+  id: string,
+  name: string,
+  nodes: Node[],
+  edges: Edge[],
+  metadata: CustomFlowMetadata
+): StoredFlow => {
+  const plain = JSON.parse(JSON.stringify({ nodes, edges, metadata })) as Pick<StoredFlow, 'nodes' | 'edges' | 'metadata'>
+  return {
+    id,
+    name,
+    updatedAt: Date.now(),
+    nodes: plain.nodes.map((node) => ({
+      ...node,
+      selected: false,
+      dragging: false,
+      data: { ...node.data, connectingFrom: null },
+    })),
+    edges: plain.edges.map((edge) => ({ ...edge, selected: false })),
+    metadata: plain.metadata,
+  }
+}
+
+/**
+ * Content of a stored flow that changes when the user edits it (used to skip redundant saves).
+ */
+export const getStoredFlowContent = (flow: StoredFlow): string => {
+  return JSON.stringify({ nodes: flow.nodes, edges: flow.edges, metadata: flow.metadata })
+}
+
+/**
+ * All stored flows, most recently saved first.
+ */
+export const listStoredFlows = async (): Promise<StoredFlowSummary[]> => {
+  const flows = await runRequest<StoredFlow[]>('readonly', (store) => store.getAll())
+  return flows
+    .map((flow) => ({ id: flow.id, name: flow.name, updatedAt: flow.updatedAt, nodeCount: flow.nodes.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export const loadStoredFlow = async (id: string): Promise<StoredFlow | undefined> => {
+  return runRequest<StoredFlow | undefined>('readonly', (store) => store.get(id))
+}
+
+export const saveStoredFlow = async (flow: StoredFlow): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(flow))
+}
+
+export const deleteStoredFlow = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id))
+}
+
+export const readFlowSession = (): FlowSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY)
+    if (!raw) return null
+    const session = JSON.parse(raw) as FlowSession
+    return typeof session?.flowId === 'string' ? session : null
+  } catch {
+    return null
+  }
+}
+
+export const writeFlowSession = (session: FlowSession | null): void => {
+  try {
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+    } else {
+      localStorage.removeItem(SESSION_KEY)
+    }
+  } catch {
+    // Storage unavailable - recovery is best effort
+  }
+}
@@ -0,0 +1,108 @@
+import { type Node, type Edge } from 'reactflow'
+import type { Module } from '../modules'
+import { parseType } from './nodeUtils'
+
+/**
+ * Variables for expr/template params: `{{name}}` references, the variables a module declares
+ * and the variables available to a node (task values + variables declared upstream).
+ */
+
+export type VariableSource = 'task_value' | 'module'
+
+export interface FlowVariable {
+  name: string
+  source: VariableSource
+  // Module node that declares the variable (for module variables)
+  nodeId?: string
+}
+
+// Param types whose values may contain {{variable}} references
+export const VARIABLE_REFERENCE_PARAM_TYPES = ['expr', 'template']
+
+// Param type whose value names a variable set by the module
+export const VARIABLE_DECLARATION_PARAM_TYPE = 'var'
+
+const VARIABLE_REFERENCE_PATTERN = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g
+
+export const isVariableReferenceParamType = (typeStr: string | undefined): boolean => {
+  return VARIABLE_REFERENCE_PARAM_TYPES.includes(parseType(typeStr).base)
+}
+
+/**
+ * Names referenced as {{name}} in a text. Dotted paths ({{user.name}}) reference their root variable.
+ */
+export const extractVariableReferences = (text: unknown): string[] => {
+  if (typeof text !== 'string') return []
+  const names = new Set<string>()
+  for (const match of text.matchAll(VARIABLE_REFERENCE_PATTERN)) {
+    names.add(match[1].split('.')[0])
+  }
+  return Array.from(names)
+}
+
+/**
+ * Variables a module node sets: the module's static `variables` plus the values of its `var` params.
+ */
+export const getDeclaredVariables = (module: Module | undefined, params: Record<string, unknown> | undefined): string[] => {
+  if (!module) return []
+  const names = new Set(module.variables ?? [])
+  module.params.forEach((param) => {
+    const value = params?.[param.name]
+    if (param.type === VARIABLE_DECLARATION_PARAM_TYPE && typeof value === 'string' && value.trim()) {
+      names.add(value.trim())
+    }
+  })
+  return Array.from(names)
+}
+
+/**
+ * Module nodes that run before the given node on some path (branching outputs are folded into their parent).
+ */
+const getUpstreamModuleNodes = (nodeId: string, nodes: Node[], edges: Edge[]): Node[] => {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]))
+  const toModuleId = (id: string): string => nodesById.get(id)?.data?.parentNodeId ?? id
+
+  const startId = toModuleId(nodeId)
+  const visited = new Set<string>()
+  const queue = [startId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    // Edges into a module come either from the module before it or from one of its branching outputs
+    edges.forEach((edge) => {
+      if (toModuleId(edge.target) !== current) return
+      const predecessor = toModuleId(edge.source)
+      if (!visited.has(predecessor)) {
+        visited.add(predecessor)
+        queue.push(predecessor)
+      }
+    })
+  }
+
+  // The node itself only counts when it is part of a loop
+  return Array.from(visited)
+    .map((id) => nodesById.get(id))
+    .filter((n): n is Node => n !== undefined)
+}
+
+/**
+ * Variables available to a node: task values first, then variables declared by upstream modules.
+ */
+export const getAvailableVariables = (
+  nodeId: string,
+  nodes: Node[],
+  edges: Edge[],
+  modules: Module[],
+  taskValues: Record<string, unknown> | undefined
+): FlowVariable[] => {
+  const variables = new Map<string, FlowVariable>()
+  Object.keys(taskValues ?? {}).forEach((name) => variables.set(name, { name, source: 'task_value' }))
+
+  getUpstreamModuleNodes(nodeId, nodes, edges).forEach((node) => {
+    const module = modules.find((m) => m.name === node.data?.moduleName)
+    getDeclaredVariables(module, node.data?.params).forEach((name) => {
+      if (!variables.has(name)) variables.set(name, { name, source: 'module', nodeId: node.id })
+    })
+  })
+
+  return Array.from(variables.values())
+}
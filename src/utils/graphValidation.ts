@@ -0,0 +1,243 @@
+import { type Node, type Edge } from 'reactflow'
+import { nodeConfigs, type NodeType, isBranchingOutputNodeType, isUnknownNodeType } from '../nodeConfigs'
+import { isStartNode } from './moduleHelpers'
+
+/**
+ * Graph-level validation of a flow: reachability from Start, paths to Exit,
+ * cycles without an exit branch and handlers pointing at missing modules.
+ */
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export interface ValidationIssue {
+  severity: ValidationSeverity
+  // Node the issue is attached to, if any (graph rules use the module node, not branching outputs)
+  nodeId?: string
+  // Param the issue is about, if any (used to open the node menu at that param)
+  paramName?: string
+  // Stable identifier of the rule that produced the issue (e.g. 'unreachable')
+  ruleId: string
+  message: string
+}
+
+const getNodeType = (node: Node): NodeType | undefined => node.data?.nodeType as NodeType | undefined
+
+const isExitNode = (node: Node): boolean => {
+  const nodeType = getNodeType(node)
+  return nodeType ? nodeConfigs[nodeType]?.type === 'inputOnly' : false
+}
+
+const getLabel = (node: Node | undefined, fallbackId: string): string => node?.data?.label || fallbackId
+
+/**
+ * Build a module-level adjacency list.
+ * Branching outputs are folded into their parent, so an edge from an output counts as an edge from the parent.
+ */
+const buildModuleGraph = (nodes: Node[], edges: Edge[]) => {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]))
+  const toModuleId = (nodeId: string): string => {
+    const node = nodesById.get(nodeId)
+    if (node && isBranchingOutputNodeType(getNodeType(node) as NodeType) && node.data?.parentNodeId) {
+      return node.data.parentNodeId as string
+    }
+    return nodeId
+  }
+
+  const moduleNodes = nodes.filter((n) => !isBranchingOutputNodeType(getNodeType(n) as NodeType))
+  const successors = new Map<string, Set<string>>()
+  const predecessors = new Map<string, Set<string>>()
+  moduleNodes.forEach((n) => {
+    successors.set(n.id, new Set())
+    predecessors.set(n.id, new Set())
+  })
+
+  edges.forEach((edge) => {
+    if (!nodesById.has(edge.source) || !nodesById.has(edge.target)) return
+    const from = toModuleId(edge.source)
+    const to = toModuleId(edge.target)
+    successors.get(from)?.add(to)
+    predecessors.get(to)?.add(from)
+  })
+
+  return { nodesById, toModuleId, moduleNodes, successors, predecessors }
+}
+
+const collectReachable = (startIds: string[], neighbours: Map<string, Set<string>>): Set<string> => {
+  const visited = new Set<string>(startIds)
+  const queue = [...startIds]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    neighbours.get(current)?.forEach((next) => {
+      if (!visited.has(next)) {
+        visited.add(next)
+        queue.push(next)
+      }
+    })
+  }
+  return visited
+}
+
+// Tarjan's strongly connected components - returns only components that form a cycle
+const findCycles = (ids: string[], successors: Map<string, Set<string>>): string[][] => {
+  let index = 0
+  const indices = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const strongConnect = (id: string) => {
+    indices.set(id, index)
+    lowLinks.set(id, index)
+    index++
+    stack.push(id)
+    onStack.add(id)
+
+    successors.get(id)?.forEach((next) => {
+      if (!indices.has(next)) {
+        strongConnect(next)
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!))
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!))
+      }
+    })
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = []
+      let member: string | undefined
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+
+      const isSelfLoop = component.length === 1 && successors.get(id)?.has(id)
+      if (component.length > 1 || isSelfLoop) {
+        cycles.push(component.reverse())
+      }
+    }
+  }
+
+  ids.forEach((id) => {
+    if (!indices.has(id)) strongConnect(id)
+  })
+  return cycles
+}
+
+/**
+ * Everything the graph rules read - positions and params are irrelevant, so dragging or editing
+ * a node does not require re-running them.
+ */
+export const getGraphValidationSignature = (nodes: Node[], edges: Edge[]): string => {
+  return JSON.stringify([
+    nodes.map((n) => [n.id, n.data?.nodeType, n.data?.moduleName, n.data?.label, n.data?.parentNodeId, n.data?.unknownModule?.handlers]),
+    edges.map((e) => [e.source, e.target]),
+  ])
+}
+
+/**
+ * Run the graph rules on the current canvas.
+ */
+export const validateFlowGraph = (nodes: Node[], edges: Edge[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+  const { nodesById, toModuleId, moduleNodes, successors, predecessors } = buildModuleGraph(nodes, edges)
+  if (moduleNodes.length === 0) return issues
+
+  // Handlers pointing at modules that do not exist
+  edges.forEach((edge) => {
+    if (nodesById.has(edge.target) || !nodesById.has(edge.source)) return
+    const moduleId = toModuleId(edge.source)
+    issues.push({
+      severity: 'error',
+      nodeId: moduleId,
+      ruleId: 'missing-handler-target',
+      message: `${getLabel(nodesById.get(moduleId), moduleId)}: handler points to missing module "${edge.target}"`,
+    })
+  })
+  moduleNodes.forEach((node) => {
+    if (!isUnknownNodeType(getNodeType(node))) return
+    const handlers = (node.data?.unknownModule?.handlers ?? {}) as Record<string, string>
+    Object.entries(handlers).forEach(([key, target]) => {
+      // Targets that are still edges are covered above
+      if (!target || nodesById.has(target) || edges.some((e) => e.source === node.id && e.target === target)) return
+      issues.push({
+        severity: 'error',
+        nodeId: node.id,
+        ruleId: 'missing-handler-target',
+        message: `${getLabel(node, node.id)}: handler "${key}" points to missing module "${target}"`,
+      })
+    })
+  })
+
+  // Exactly one Start node
+  const startNodes = moduleNodes.filter((n) => isStartNode(n))
+  if (startNodes.length === 0) {
+    issues.push({ severity: 'error', ruleId: 'missing-start', message: 'Flow has no Start node' })
+  } else if (startNodes.length > 1) {
+    startNodes.slice(1).forEach((node) => {
+      issues.push({
+        severity: 'error',
+        nodeId: node.id,
+        ruleId: 'multiple-starts',
+        message: `${getLabel(node, node.id)}: flow has ${startNodes.length} Start nodes, only one is allowed`,
+      })
+    })
+  }
+
+  // Nodes unreachable from Start
+  const reachable = collectReachable(startNodes.map((n) => n.id), successors)
+  if (startNodes.length > 0) {
+    moduleNodes.forEach((node) => {
+      if (reachable.has(node.id)) return
+      issues.push({
+        severity: 'warning',
+        nodeId: node.id,
+        ruleId: 'unreachable',
+        message: `${getLabel(node, node.id)}: not reachable from Start`,
+      })
+    })
+  }
+
+  // Paths to Exit
+  const exitIds = moduleNodes.filter(isExitNode).map((n) => n.id)
+  if (exitIds.length === 0) {
+    issues.push({ severity: 'error', ruleId: 'missing-exit', message: 'Flow has no Exit node' })
+    return issues
+  }
+  const canReachExit = collectReachable(exitIds, predecessors)
+
+  // Cycles that never lead to an Exit
+  const cycleMembers = new Set<string>()
+  findCycles(moduleNodes.map((n) => n.id), successors).forEach((cycle) => {
+    if (cycle.some((id) => canReachExit.has(id))) return
+    cycle.forEach((id) => cycleMembers.add(id))
+    const labels = cycle.map((id) => getLabel(nodesById.get(id), id)).join(' → ')
+    issues.push({
+      severity: 'error',
+      nodeId: cycle[0],
+      ruleId: 'cycle-without-exit',
+      message: `Cycle without exit branch: ${labels}`,
+    })
+  })
+
+  startNodes.forEach((node) => {
+    if (canReachExit.has(node.id)) return
+    issues.push({
+      severity: 'error',
+      nodeId: node.id,
+      ruleId: 'no-path-to-exit',
+      message: 'No path from Start to an Exit node',
+    })
+  })
+  moduleNodes.forEach((node) => {
+    if (isStartNode(node) || canReachExit.has(node.id) || cycleMembers.has(node.id) || !reachable.has(node.id)) return
+    issues.push({
+      severity: 'warning',
+      nodeId: node.id,
+      ruleId: 'no-path-to-exit',
+      message: `${getLabel(node, node.id)}: no path to an Exit node`,
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,358 @@
+import type { Module, Param, OutputConfig, ParamConverterName } from '../modules'
+import { nodeConfigs } from '../nodeConfigs'
+import { parseType } from './nodeUtils'
+import { PARAM_CONVERTER_NAMES } from './moduleMigrations'
+import { VOICE_OVERRIDES_PARAM } from './voiceOverrides'
+import { isPlainObject, isStringArray } from './typeGuards'
+
+/**
+ * Helpers for loading module catalogs from the backend:
+ * schema validation of raw entries and a localStorage cache of the last good catalog.
+ */
+
+// Catalog entry that failed validation - reported back to the caller instead of being loaded
+export interface RejectedModuleEntry {
+  index: number
+  name?: string
+  errors: string[]
+}
+
+export interface ModuleCatalogResult {
+  modules: Module[]
+  rejected: RejectedModuleEntry[]
+  // Where the modules came from: fresh from the server, from the offline cache, or nowhere
+  source: 'remote' | 'cache' | 'none'
+  // Network/parse error that forced a fallback to the cache (if any)
+  error?: string
+}
+
+interface CachedModuleCatalog {
+  fetchedAt: string
+  modules: Module[]
+}
+
+const CACHE_KEY_PREFIX = 'moduleCatalog:'
+
+// Module types come from nodeConfigs - auto-generated types (isModuleType: false) are not allowed
+const getAllowedModuleTypes = (): string[] => {
+  return Object.entries(nodeConfigs)
+    .filter(([, config]) => config.isModuleType !== false)
+    .map(([type]) => type)
+}
+
+/**
+ * Base URL of the module catalog API.
+ * Configured through VITE_MODULE_CATALOG_URL (e.g. http://localhost:4010 for a local mock server).
+ */
+export const getModuleCatalogBaseUrl = (): string => {
+  return (import.meta.env.VITE_MODULE_CATALOG_URL ?? '').replace(/\/+$/, '')
+}
+
+/**
+ * Build the catalog URL for a bot.
+ */
+export const getModuleCatalogUrl = (baseUrl: string, mchannelsBotId: string): string => {
+  return `${baseUrl}/bots/${encodeURIComponent(mchannelsBotId)}/modules`
+}
+
+const validateParam = (param: unknown, index: number): string[] => {
+  if (!isPlainObject(param)) {
+    return [`params[${index}] must be an object`]
+  }
+  const errors: string[] = []
+  if (typeof param.name !== 'string' || !param.name) {
+    errors.push(`params[${index}] is missing a string "name"`)
+  }
+  if (param.type !== undefined && typeof param.type !== 'string') {
+    errors.push(`params[${index}].type must be a string`)
+  }
+  if (param.obligatory !== undefined && typeof param.obligatory !== 'boolean') {
+    errors.push(`params[${index}].obligatory must be a boolean`)
+  }
+  if (param.enum !== undefined) {
+    const isScalar = (value: unknown) => ['string', 'number', 'boolean'].includes(typeof value)
+    if (!Array.isArray(param.enum) || param.enum.length === 0 || !param.enum.every(isScalar)) {
+      errors.push(`params[${index}].enum must be a non-empty array of strings, numbers or booleans`)
+    }
+  }
+  for (const key of ['min', 'max']) {
+    if (param[key] !== undefined && typeof param[key] !== 'number') {
+      errors.push(`params[${index}].${key} must be a number`)
+    }
+  }
+  for (const key of ['maxLength', 'minItems', 'maxItems']) {
+    const value = param[key]
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      errors.push(`params[${index}].${key} must be a non-negative integer`)
+    }
+  }
+  if (param.pattern !== undefined) {
+    if (typeof param.pattern !== 'string') {
+      errors.push(`params[${index}].pattern must be a string`)
+    } else {
+      try {
+        new RegExp(param.pattern)
+      } catch {
+        errors.push(`params[${index}].pattern is not a valid regular expression`)
+      }
+    }
+  }
+  if (param.help !== undefined && typeof param.help !== 'string') {
+    errors.push(`params[${index}].help must be a string`)
+  }
+  return errors
+}
+
+const validateOutputConfig = (outputConfig: unknown, params: Param[]): string[] => {
+  if (!isPlainObject(outputConfig)) {
+    return ['outputConfig must be an object']
+  }
+  const config = outputConfig as Partial<Record<'type' | 'listParamName' | 'outputCount', unknown>>
+  if (config.type === 'listParam') {
+    if (typeof config.listParamName !== 'string' || !config.listParamName) {
+      return ['outputConfig.listParamName is required for listParam outputs']
+    }
+    const listParam = params.find((p) => p.name === config.listParamName)
+    if (!listParam) {
+      return [`outputConfig.listParamName "${config.listParamName}" does not match any param`]
+    }
+    if (listParam.type && parseType(listParam.type).base !== 'list') {
+      return [`outputConfig.listParamName "${config.listParamName}" must reference a list param`]
+    }
+    return []
+  }
+  if (config.type === 'internal') {
+    if (typeof config.outputCount !== 'number' || !Number.isInteger(config.outputCount) || config.outputCount < 1) {
+      return ['outputConfig.outputCount must be a positive integer for internal outputs']
+    }
+    return []
+  }
+  return ['outputConfig.type must be "listParam" or "internal"']
+}
+
+const validateMigrationStep = (step: unknown, path: string): string[] => {
+  if (!isPlainObject(step)) {
+    return [`${path} must be an object`]
+  }
+  const isName = (value: unknown) => typeof value === 'string' && value !== ''
+  switch (step.op) {
+    case 'renameParam':
+      return isName(step.from) && isName(step.to) ? [] : [`${path} needs string "from" and "to"`]
+    case 'changeType':
+      if (!isName(step.param) || !isName(step.type)) {
+        return [`${path} needs string "param" and "type"`]
+      }
+      if (step.convert !== undefined && !PARAM_CONVERTER_NAMES.includes(step.convert as ParamConverterName)) {
+        return [`${path}.convert must be one of: ${PARAM_CONVERTER_NAMES.join(', ')}`]
+      }
+      return []
+    case 'dropParam':
+    case 'addParam':
+      return isName(step.param) ? [] : [`${path} needs a string "param"`]
+    default:
+      return [`${path}.op must be renameParam, changeType, dropParam or addParam`]
+  }
+}
+
+const validateMigrations = (migrations: unknown, version: unknown): string[] => {
+  if (!Array.isArray(migrations)) {
+    return ['"migrations" must be an array']
+  }
+  const errors: string[] = []
+  migrations.forEach((migration: unknown, index: number) => {
+    if (!isPlainObject(migration)) {
+      errors.push(`migrations[${index}] must be an object`)
+      return
+    }
+    if (typeof migration.version !== 'number' || !Number.isInteger(migration.version) || migration.version < 1) {
+      errors.push(`migrations[${index}].version must be a positive integer`)
+    } else if (typeof version === 'number' && migration.version > version) {
+      errors.push(`migrations[${index}].version is higher than the module version`)
+    }
+    if (!Array.isArray(migration.steps)) {
+      errors.push(`migrations[${index}].steps must be an array`)
+    } else {
+      migration.steps.forEach((step: unknown, stepIndex: number) => {
+        errors.push(...validateMigrationStep(step, `migrations[${index}].steps[${stepIndex}]`))
+      })
+    }
+  })
+  return errors
+}
+
+/**
+ * Validate a raw catalog entry against the Module schema.
+ * Returns a list of human-readable errors (empty if the entry is a valid Module).
+ */
+export const validateModuleEntry = (entry: unknown): string[] => {
+  if (!isPlainObject(entry)) {
+    return ['Module entry must be an object']
+  }
+
+  const errors: string[] = []
+
+  if (typeof entry.name !== 'string' || !entry.name) {
+    errors.push('Missing a string "name"')
+  }
+  if (typeof entry.description !== 'string') {
+    errors.push('Missing a string "description"')
+  }
+
+  const allowedTypes = getAllowedModuleTypes()
+  if (typeof entry.type !== 'string' || !allowedTypes.includes(entry.type)) {
+    errors.push(`"type" must be one of: ${allowedTypes.join(', ')}`)
+  }
+
+  if (!Array.isArray(entry.params)) {
+    errors.push('"params" must be an array')
+  } else {
+    entry.params.forEach((param: unknown, index: number) => {
+      errors.push(...validateParam(param, index))
+    })
+  }
+  const params: Param[] = Array.isArray(entry.params) ? entry.params.filter(isPlainObject) as unknown as Param[] : []
+
+  if (entry.labelParam !== undefined) {
+    if (typeof entry.labelParam !== 'string') {
+      errors.push('"labelParam" must be a string')
+    } else if (!params.some((p) => p.name === entry.labelParam)) {
+      errors.push(`"labelParam" "${entry.labelParam}" does not match any param`)
+    }
+  }
+
+  // Branching module types need an outputConfig, other types must not have one
+  const isBranchingType = entry.type === 'branchingInternal' || entry.type === 'branchingListParam'
+  if (entry.outputConfig !== undefined) {
+    errors.push(...validateOutputConfig(entry.outputConfig, params))
+    if (!isBranchingType) {
+      errors.push('"outputConfig" is only allowed for branching module types')
+    } else if (
+      (entry.type === 'branchingInternal' && (entry.outputConfig as OutputConfig).type !== 'internal') ||
+      (entry.type === 'branchingListParam' && (entry.outputConfig as OutputConfig).type !== 'listParam')
+    ) {
+      errors.push(`"outputConfig.type" does not match module type "${entry.type}"`)
+    }
+  } else if (isBranchingType) {
+    errors.push('Branching modules require an "outputConfig"')
+  }
+
+  if (entry.version !== undefined && (typeof entry.version !== 'number' || !Number.isInteger(entry.version) || entry.version < 0)) {
+    errors.push('"version" must be a non-negative integer')
+  }
+  if (entry.migrations !== undefined) {
+    errors.push(...validateMigrations(entry.migrations, entry.version))
+  }
+
+  if (entry.outputLabels !== undefined && !isStringArray(entry.outputLabels)) {
+    errors.push('"outputLabels" must be an array of strings')
+  }
+  if (entry.handlers !== undefined && !isStringArray(entry.handlers)) {
+    errors.push('"handlers" must be an array of strings')
+  }
+  if (entry.variables !== undefined && !isStringArray(entry.variables)) {
+    errors.push('"variables" must be an array of strings')
+  }
+  if (entry.channels !== undefined && !isStringArray(entry.channels)) {
+    errors.push('"channels" must be an array of strings')
+  }
+  if (entry.voiceOverrides !== undefined && typeof entry.voiceOverrides !== 'boolean') {
+    errors.push('"voiceOverrides" must be a boolean')
+  }
+  if (entry.voiceOverrides === true && Array.isArray(entry.params) && entry.params.some((param) => isPlainObject(param) && param.name === VOICE_OVERRIDES_PARAM)) {
+    errors.push(`param "${VOICE_OVERRIDES_PARAM}" is reserved for voice overrides`)
+  }
+  if (entry.documentation !== undefined && typeof entry.documentation !== 'string') {
+    errors.push('"documentation" must be a string')
+  }
+  if (entry.source !== undefined) {
+    if (!isPlainObject(entry.source)) {
+      errors.push('"source" must be an object')
+    } else {
+      if (entry.source.path !== undefined && typeof entry.source.path !== 'string') {
+        errors.push('"source.path" must be a string')
+      }
+      if (entry.source.unpack_params !== undefined && typeof entry.source.unpack_params !== 'boolean') {
+        errors.push('"source.unpack_params" must be a boolean')
+      }
+    }
+  }
+
+  const booleanFlags = ['showInToolbar', 'showMenu', 'canDuplicate', 'duplicateOutputAddsToParent']
+  booleanFlags.forEach((flag) => {
+    if (entry[flag] !== undefined && typeof entry[flag] !== 'boolean') {
+      errors.push(`"${flag}" must be a boolean`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Split a raw catalog payload into valid modules and rejected entries.
+ * Accepts either a bare array or an object with a "modules" array.
+ */
+export const parseModuleCatalog = (payload: unknown): { modules: Module[]; rejected: RejectedModuleEntry[] } => {
+  const entries = Array.isArray(payload)
+    ? payload
+    : isPlainObject(payload) && Array.isArray(payload.modules)
+      ? payload.modules
+      : null
+
+  if (!entries) {
+    throw new Error('Module catalog must be an array or an object with a "modules" array')
+  }
+
+  const modules: Module[] = []
+  const rejected: RejectedModuleEntry[] = []
+  const seenNames = new Set<string>()
+
+  entries.forEach((entry: unknown, index: number) => {
+    const errors = validateModuleEntry(entry)
+    const name = isPlainObject(entry) && typeof entry.name === 'string' ? entry.name : undefined
+
+    if (name && seenNames.has(name)) {
+      errors.push(`Duplicate module name "${name}"`)
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ index, name, errors })
+      return
+    }
+
+    seenNames.add(name!)
+    modules.push(entry as Module)
+  })
+
+  return { modules, rejected }
+}
+
+/**
+ * Read the last good catalog for a bot from localStorage.
+ */
+export const readCachedModuleCatalog = (mchannelsBotId: string): Module[] | null => {
+  try {
+    const raw = localStorage.getItem(`${CACHE_KEY_PREFIX}${mchannelsBotId}`)
+    if (!raw) return null
+    const cached = JSON.parse(raw) as CachedModuleCatalog
+    if (!Array.isArray(cached?.modules)) return null
+    // Re-validate in case the cache was written by an older schema
+    return parseModuleCatalog(cached.modules).modules
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store a catalog for a bot in localStorage so the editor keeps working offline.
+ */
+export const writeCachedModuleCatalog = (mchannelsBotId: string, modules: Module[]): void => {
+  try {
+    const cached: CachedModuleCatalog = {
+      fetchedAt: new Date().toISOString(),
+      modules,
+    }
+    localStorage.setItem(`${CACHE_KEY_PREFIX}${mchannelsBotId}`, JSON.stringify(cached))
+  } catch {
+    // Storage full or unavailable - caching is best effort
+  }
+}
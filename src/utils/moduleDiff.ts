@@ -0,0 +1,167 @@
+import { parse as parseYaml } from 'yaml'
+import type { Module, Param } from '../modules'
+import { parseModuleCatalog, type RejectedModuleEntry } from './moduleCatalog'
+
+/**
+ * Helpers for importing module catalog files (JSON/YAML) and diffing them
+ * against the currently registered modules.
+ */
+
+export interface ModuleChange {
+  name: string
+  // Params added/removed/changed (type, obligatory)
+  addedParams: string[]
+  removedParams: string[]
+  changedParams: string[]
+  // Handler names added/removed
+  addedHandlers: string[]
+  removedHandlers: string[]
+  // Human-readable description of outputConfig change (if any)
+  outputConfigChange?: string
+  // Other top-level fields that differ (type, description, labelParam, ...)
+  changedFields: string[]
+}
+
+export interface ModuleCatalogDiff {
+  added: Module[]
+  removed: Module[]
+  changed: ModuleChange[]
+  unchanged: string[]
+}
+
+export interface ParsedModuleCatalogFile {
+  modules: Module[]
+  rejected: RejectedModuleEntry[]
+}
+
+/**
+ * Parse a catalog file (JSON or YAML) into validated modules.
+ * The format is picked from the file extension; unknown extensions try JSON first, then YAML.
+ */
+export const parseModuleCatalogFile = (fileName: string, text: string): ParsedModuleCatalogFile => {
+  const lowerName = fileName.toLowerCase()
+  let payload: unknown
+  if (lowerName.endsWith('.yaml') || lowerName.endsWith('.yml')) {
+    payload = parseYaml(text)
+  } else if (lowerName.endsWith('.json')) {
+    payload = JSON.parse(text)
+  } else {
+    try {
+      payload = JSON.parse(text)
+    } catch {
+      payload = parseYaml(text)
+    }
+  }
+  return parseModuleCatalog(payload)
+}
+
+const describeParam = (param: Param): string => {
+  const type = param.type ?? 'any'
+  return param.obligatory === false ? `${type}, optional` : type
+}
+
+const describeOutputConfig = (module: Module): string => {
+  const config = module.outputConfig
+  if (!config) return 'none'
+  return config.type === 'listParam'
+    ? `listParam(${config.listParamName})`
+    : `internal(${config.outputCount})`
+}
+
+// Fields compared by value; params, handlers and outputConfig are diffed separately
+const COMPARED_FIELDS: Array<keyof Module> = [
+  'type',
+  'version',
+  'description',
+  'labelParam',
+  'outputLabels',
+  'documentation',
+  'source',
+  'showInToolbar',
+  'showMenu',
+  'canDuplicate',
+  'duplicateOutputAddsToParent',
+  'variables',
+  'channels',
+  'voiceOverrides',
+]
+
+const diffModule = (before: Module, after: Module): ModuleChange => {
+  const beforeParams = new Map(before.params.map((p) => [p.name, p]))
+  const afterParams = new Map(after.params.map((p) => [p.name, p]))
+
+  const addedParams = after.params.filter((p) => !beforeParams.has(p.name)).map((p) => p.name)
+  const removedParams = before.params.filter((p) => !afterParams.has(p.name)).map((p) => p.name)
+  const changedParams = after.params
+    .filter((p) => {
+      const previous = beforeParams.get(p.name)
+      return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(p)
+    })
+    .map((p) => `${p.name}: ${describeParam(beforeParams.get(p.name)!)} → ${describeParam(p)}`)
+
+  const beforeHandlers = before.handlers ?? []
+  const afterHandlers = after.handlers ?? []
+  const addedHandlers = afterHandlers.filter((h) => !beforeHandlers.includes(h))
+  const removedHandlers = beforeHandlers.filter((h) => !afterHandlers.includes(h))
+
+  const beforeOutput = describeOutputConfig(before)
+  const afterOutput = describeOutputConfig(after)
+  const outputConfigChange = beforeOutput !== afterOutput ? `${beforeOutput} → ${afterOutput}` : undefined
+
+  const changedFields = COMPARED_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  ) as string[]
+
+  return {
+    name: after.name,
+    addedParams,
+    removedParams,
+    changedParams,
+    addedHandlers,
+    removedHandlers,
+    outputConfigChange,
+    changedFields,
+  }
+}
+
+const hasChanges = (change: ModuleChange): boolean => {
+  return (
+    change.addedParams.length > 0 ||
+    change.removedParams.length > 0 ||
+    change.changedParams.length > 0 ||
+    change.addedHandlers.length > 0 ||
+    change.removedHandlers.length > 0 ||
+    change.outputConfigChange !== undefined ||
+    change.changedFields.length > 0
+  )
+}
+
+/**
+ * Diff an incoming catalog against the current modules (matched by module name).
+ */
+export const diffModuleCatalogs = (current: Module[], incoming: Module[]): ModuleCatalogDiff => {
+  const currentByName = new Map(current.map((m) => [m.name, m]))
+  const incomingNames = new Set(incoming.map((m) => m.name))
+
+  const added: Module[] = []
+  const changed: ModuleChange[] = []
+  const unchanged: string[] = []
+
+  incoming.forEach((module) => {
+    const previous = currentByName.get(module.name)
+    if (!previous) {
+      added.push(module)
+      return
+    }
+    const change = diffModule(previous, module)
+    if (hasChanges(change)) {
+      changed.push(change)
+    } else {
+      unchanged.push(module.name)
+    }
+  })
+
+  const removed = current.filter((m) => !incomingNames.has(m.name))
+
+  return { added, removed, changed, unchanged }
+}
@@ -1,4 +1,4 @@
-import modules from '../modules'
+import { moduleRegistry } from '../modules'
 import { nodeConfigs, type NodeType } from '../nodeConfigs'
 
 /**
@@ -12,7 +12,7 @@ import { nodeConfigs, type NodeType } from '../nodeConfigs'
  * and the module should have showInToolbar=false and showMenu=false (derived from config behavior).
  */
 export const getStartModule = () => {
-  return modules.find((m) => {
+  return moduleRegistry.get().find((m) => {
     // Check if this module's type corresponds to 'outputOnly' in node configs
     const nodeConfig = nodeConfigs[m.type as NodeType]
     if (!nodeConfig || nodeConfig.type !== 'outputOnly') {
@@ -49,7 +49,7 @@ export const isStartNode = (node: { data?: { moduleName?: string } } | null | un
  * Use isStickerModule() to check if a specific module name is a sticker module.
  */
 export const getStickerModule = () => {
-  return modules.find((m) => m.type === 'sticker')
+  return moduleRegistry.get().find((m) => m.type === 'sticker')
 }
 
 /**
@@ -59,7 +59,7 @@ export const getStickerModule = () => {
  */
 export const isStickerModule = (moduleName: string | undefined): boolean => {
   if (!moduleName) return false
-  const module = modules.find((m) => m.name === moduleName)
+  const module = moduleRegistry.byName(moduleName)
   return module?.params?.some((p) => p.type === 'stickers') ?? false
 }
 
@@ -80,5 +80,5 @@ export const isStickerNode = (
  */
 export const getModuleByName = (moduleName: string | undefined) => {
   if (!moduleName) return undefined
-  return modules.find((m) => m.name === moduleName)
+  return moduleRegistry.byName(moduleName)
 }
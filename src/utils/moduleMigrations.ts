@@ -0,0 +1,140 @@
+import type { Module, MigrationStep, ParamConverter, ParamConverterName } from '../modules'
+import { parseType } from './nodeUtils'
+import { getParamDefaultValue } from './configHelpers'
+
+/**
+ * Param migrations for versioned modules.
+ * Modules saved with an older version are upgraded step by step on import.
+ */
+
+export interface ModuleMigrationReport {
+  moduleId: string
+  moduleName: string
+  fromVersion: number
+  toVersion: number
+  // Human-readable description of every change applied to the params
+  changes: string[]
+}
+
+export const PARAM_CONVERTER_NAMES: ParamConverterName[] = ['toString', 'toNumber', 'toBoolean', 'toList', 'fromList']
+
+const converters: Record<ParamConverterName, (value: unknown) => unknown> = {
+  toString: (value) => {
+    if (value === null || value === undefined) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  },
+  toNumber: (value) => {
+    const num = typeof value === 'number' ? value : Number(value)
+    return Number.isNaN(num) ? 0 : num
+  },
+  toBoolean: (value) => {
+    if (typeof value === 'string') return value.trim().toLowerCase() === 'true' || value === '1'
+    return Boolean(value)
+  },
+  toList: (value) => {
+    if (Array.isArray(value)) return value
+    if (value === null || value === undefined || value === '') return []
+    return [value]
+  },
+  fromList: (value) => (Array.isArray(value) ? value[0] ?? '' : value),
+}
+
+// Pick a converter that matches the target type when the step does not name one
+const getDefaultConverter = (typeStr: string): ParamConverterName | undefined => {
+  const { base } = parseType(typeStr)
+  if (base === 'int' || base === 'float' || base === 'number') return 'toNumber'
+  if (base === 'bool' || base === 'boolean') return 'toBoolean'
+  if (base === 'list') return 'toList'
+  if (base === 'str' || base === 'string') return 'toString'
+  return undefined
+}
+
+const resolveConverter = (convert: ParamConverter | undefined, typeStr: string) => {
+  if (typeof convert === 'function') return convert
+  const name = convert ?? getDefaultConverter(typeStr)
+  return name ? converters[name] : undefined
+}
+
+const applyStep = (step: MigrationStep, params: Record<string, unknown>, module: Module, changes: string[]) => {
+  switch (step.op) {
+    case 'renameParam':
+      if (step.from in params) {
+        params[step.to] = params[step.from]
+        delete params[step.from]
+        changes.push(`renamed param "${step.from}" to "${step.to}"`)
+      }
+      break
+    case 'changeType':
+      if (step.param in params) {
+        const convert = resolveConverter(step.convert, step.type)
+        if (convert) {
+          params[step.param] = convert(params[step.param])
+        }
+        changes.push(`converted param "${step.param}" to ${step.type}`)
+      }
+      break
+    case 'dropParam':
+      if (step.param in params) {
+        delete params[step.param]
+        changes.push(`dropped param "${step.param}"`)
+      }
+      break
+    case 'addParam':
+      if (!(step.param in params)) {
+        const paramDef = module.params.find((p) => p.name === step.param)
+        params[step.param] = step.default !== undefined ? step.default : getParamDefaultValue(paramDef)
+        changes.push(`added param "${step.param}"`)
+      }
+      break
+  }
+}
+
+/**
+ * Upgrade params saved with `fromVersion` to the module's current version.
+ * Returns the migrated params and a report (null when nothing had to be migrated).
+ */
+export const migrateModuleParams = (
+  moduleId: string,
+  module: Module,
+  params: Record<string, unknown>,
+  fromVersion: number | undefined
+): { params: Record<string, unknown>; report: ModuleMigrationReport | null } => {
+  const toVersion = module.version ?? 0
+  const startVersion = fromVersion ?? 0
+  if (startVersion >= toVersion || !module.migrations || module.migrations.length === 0) {
+    return { params, report: null }
+  }
+
+  const pending = module.migrations
+    .filter((m) => m.version > startVersion && m.version <= toVersion)
+    .sort((a, b) => a.version - b.version)
+
+  const migrated = { ...params }
+  const changes: string[] = []
+  pending.forEach((migration) => {
+    migration.steps.forEach((step) => applyStep(step, migrated, module, changes))
+  })
+
+  return {
+    params: migrated,
+    report: {
+      moduleId,
+      moduleName: module.name,
+      fromVersion: startVersion,
+      toVersion,
+      changes,
+    },
+  }
+}
+
+/**
+ * One line per migrated module, e.g. `ask_name (Type 1 v1→v2): renamed param "what" to "question"`.
+ */
+export const formatMigrationReport = (reports: ModuleMigrationReport[]): string => {
+  return reports
+    .map((r) => {
+      const changes = r.changes.length > 0 ? r.changes.join(', ') : 'no param changes'
+      return `${r.moduleId} (${r.moduleName} v${r.fromVersion}→v${r.toVersion}): ${changes}`
+    })
+    .join('\n')
+}
@@ -1,9 +1,9 @@
 import { type Node } from 'reactflow'
 import nodeConfigs, { type NodeType, NODE_TYPES } from '../nodeConfigs'
-import modules from '../modules'
+import { moduleRegistry } from '../modules'
 import { getNodeLabel, getId } from './nodeUtils'
 import { getBranchingLayoutConstants, calculateOutputNodePosition, calculateBranchingNodeHeight } from './branchingNodeHelpers'
-import { getDefaultValueForType } from './configHelpers'
+import { getParamDefaultValue } from './configHelpers'
 
 // ReactFlow component type - all nodes use the NodeFactory component
 export const REACTFLOW_NODE_TYPE = 'nodeFactory'
@@ -27,14 +27,14 @@ export const createNodeFromConfig = (
     throw new Error(`Unknown node type: ${nodeType}`)
   }
 
-  const module = options.moduleName ? modules.find((m) => m.name === options.moduleName) : undefined
+  const module = options.moduleName ? moduleRegistry.byName(options.moduleName) : undefined
 
   // Initialize params from module if provided
   const initialParams: Record<string, any> = {}
   if (module) {
     module.params.forEach((param) => {
       // Set default value using centralized helper
-      initialParams[param.name] = getDefaultValueForType(param.type)
+      initialParams[param.name] = getParamDefaultValue(param)
     })
   }
 
@@ -95,7 +95,7 @@ export const createBranchingNodeWithOutputs = (
     throw new Error(`Output config for ${outputNodeType} not found`)
   }
 
-  const module = moduleName ? modules.find((m) => m.name === moduleName) : undefined
+  const module = moduleName ? moduleRegistry.byName(moduleName) : undefined
 
   // Use the same layout constants and helper that branchingNodeHelpers uses so
   // that initial creation and later repositioning are perfectly aligned.
@@ -1,7 +1,6 @@
 import { type Node } from 'reactflow'
 import { type Module } from '../modules'
 import nodeConfigs, { type NodeType, isBranchingNodeType, NODE_TYPES } from '../nodeConfigs'
-import modules from '../modules'
 
 // Helper to derive node type from module
 export const getNodeTypeFromModule = (module: Module): NodeType => {
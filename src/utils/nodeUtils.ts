@@ -1,7 +1,6 @@
 import { type Node } from 'reactflow'
 import { type Module } from '../modules'
 import nodeConfigs, { type NodeType, NODE_TYPES } from '../nodeConfigs'
-import modules from '../modules'
 import { isStickerModule } from './moduleHelpers'
 
 // Helper to parse Pythonic type notation recursively (e.g., "list[str]", "dict", "list[list[str]]", "dict[str, dict[str, list[list[str]]]]")
@@ -0,0 +1,185 @@
+import { type Node, type Edge } from 'reactflow'
+import nodeConfigs, { type NodeType, isBranchingOutputNodeType, isUnknownNodeType } from '../nodeConfigs'
+import type { Module } from '../modules'
+import { isEmpty, isParamObligatory } from './configHelpers'
+import type { ValidationIssue } from './graphValidation'
+import { checkParamConstraints, checkParamTypes, checkValueConstraints, checkValueType, parseTypeTree } from './paramTypeCheck'
+import { extractVariableReferences, getAvailableVariables, isVariableReferenceParamType } from './flowVariables'
+import { isModuleAvailableOnChannel } from './channels'
+
+/**
+ * Per-node validation rules (outputs connected, obligatory params filled and well-typed, module known
+ * and available on the flow's channel).
+ * Each node only depends on its own data, its parent's label, whether it has an outgoing edge
+ * and (for expr/template params) the variables available to it, so results can be cached per node
+ * and re-checked only when those inputs change.
+ */
+
+export interface NodeValidationContext {
+  nodes: Node[]
+  edges: Edge[]
+  modules: Module[]
+  // Flow-level task values (variables available to every module)
+  taskValues?: Record<string, unknown>
+  // Channel of the bot version (modules may be limited to some channels)
+  channel?: string
+}
+
+const getParentLabel = (node: Node, nodes: Node[]): string | undefined => {
+  if (!node.data?.parentNodeId) return undefined
+  const parentNode = nodes.find((parent) => parent.id === node.data.parentNodeId)
+  return parentNode?.data?.label || node.data.parentNodeId
+}
+
+const getIssueLabel = (node: Node, nodes: Node[]): string => {
+  const label = node.data?.label || node.id
+  const parentLabel = getParentLabel(node, nodes)
+  return parentLabel ? `${label} (parent: ${parentLabel})` : label
+}
+
+const getReferenceParamNames = (module: Module | undefined): string[] => {
+  return module ? module.params.filter((param) => isVariableReferenceParamType(param.type)).map((param) => param.name) : []
+}
+
+/**
+ * Everything validateNode reads for a node - if this string is unchanged, so are its issues.
+ */
+export const getNodeValidationSignature = (node: Node, { nodes, edges, modules, taskValues, channel }: NodeValidationContext): string => {
+  const module = node.data?.moduleName ? modules.find((m) => m.name === node.data.moduleName) : undefined
+  const variableNames = getReferenceParamNames(module).length > 0
+    ? getAvailableVariables(node.id, nodes, edges, modules, taskValues).map((variable) => variable.name)
+    : []
+  return JSON.stringify([
+    variableNames,
+    channel,
+    node.data?.nodeType,
+    node.data?.moduleName,
+    node.data?.label,
+    node.data?.params,
+    node.data?.unknownModule?.type,
+    getParentLabel(node, nodes),
+    edges.some((edge) => edge.source === node.id),
+  ])
+}
+
+export const validateNode = (node: Node, { nodes, edges, modules, taskValues, channel }: NodeValidationContext): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+  const nodeType = node.data?.nodeType as NodeType | undefined
+
+  // Flag modules whose type is not in the catalog - they are exported as-is but cannot be checked
+  if (isUnknownNodeType(nodeType)) {
+    const type = node.data?.unknownModule?.type || node.data?.moduleName
+    issues.push({
+      severity: 'error',
+      nodeId: node.id,
+      ruleId: 'unknown-module',
+      message: `${getIssueLabel(node, nodes)}: unknown module type "${type}"`,
+    })
+    return issues
+  }
+
+  // Nodes with source handles need an outgoing edge
+  if (nodeType && nodeConfigs[nodeType]?.hasSourceHandles === true) {
+    const hasOutgoingEdge = edges.some((edge) => edge.source === node.id)
+    if (!hasOutgoingEdge) {
+      issues.push({
+        severity: 'error',
+        nodeId: node.id,
+        ruleId: 'unconnected-output',
+        message: `${getIssueLabel(node, nodes)}: output is not connected`,
+      })
+    }
+  }
+
+  // Obligatory params must be filled
+  const module = node.data?.moduleName ? modules.find((m) => m.name === node.data.moduleName) : undefined
+  if (!module) return issues
+
+  // Modules limited to other channels would not run in this bot (branching outputs share their parent's module)
+  if (!isBranchingOutputNodeType(nodeType as NodeType) && !isModuleAvailableOnChannel(module, channel)) {
+    issues.push({
+      severity: 'warning',
+      nodeId: node.id,
+      ruleId: 'channel-unsupported',
+      message: `${getIssueLabel(node, nodes)}: module "${module.name}" does not support the ${channel} channel (supports ${module.channels?.join(', ')})`,
+    })
+  }
+
+  const nodeParams = node.data?.params || {}
+  const addMissingParam = (paramName: string) => {
+    issues.push({
+      severity: 'error',
+      nodeId: node.id,
+      paramName,
+      ruleId: 'missing-param',
+      message: `${getIssueLabel(node, nodes)}: missing ${paramName}`,
+    })
+  }
+
+  module.params.forEach((param) => {
+    if (isParamObligatory(param) && isEmpty(nodeParams[param.name])) {
+      addMissingParam(param.name)
+    }
+  })
+
+  // Filled params must match their declared type
+  const addTypeMismatch = (paramName: string, message: string) => {
+    issues.push({
+      severity: 'error',
+      nodeId: node.id,
+      paramName,
+      ruleId: 'type-mismatch',
+      message: `${getIssueLabel(node, nodes)}: ${message}`,
+    })
+  }
+  checkParamTypes(module, nodeParams).forEach(({ paramName, message }) => addTypeMismatch(paramName, message))
+
+  // ...and respect their declared constraints (enum, min/max, pattern, lengths, item counts)
+  const addConstraintViolation = (paramName: string, message: string) => {
+    issues.push({
+      severity: 'error',
+      nodeId: node.id,
+      paramName,
+      ruleId: 'param-constraint',
+      message: `${getIssueLabel(node, nodes)}: ${message}`,
+    })
+  }
+  checkParamConstraints(module, nodeParams).forEach(({ paramName, message }) => addConstraintViolation(paramName, message))
+
+  // {{variable}} references in expr/template params must resolve to a task value or an upstream variable
+  const referenceParamNames = getReferenceParamNames(module)
+  if (referenceParamNames.length > 0) {
+    const available = new Set(getAvailableVariables(node.id, nodes, edges, modules, taskValues).map((variable) => variable.name))
+    referenceParamNames.forEach((paramName) => {
+      extractVariableReferences(nodeParams[paramName]).forEach((name) => {
+        if (available.has(name)) return
+        issues.push({
+          severity: 'warning',
+          nodeId: node.id,
+          paramName,
+          ruleId: 'undefined-variable',
+          message: `${getIssueLabel(node, nodes)}: ${paramName} references undefined variable "${name}"`,
+        })
+      })
+    })
+  }
+
+  // For output nodes linked to listParam, check if value is filled and matches the list's item type
+  if (isBranchingOutputNodeType(nodeType as NodeType) && module.outputConfig?.type === 'listParam') {
+    if (isEmpty(nodeParams.value)) {
+      addMissingParam('value')
+    } else {
+      const listParamName = module.outputConfig.listParamName
+      const listParam = module.params.find((p) => p.name === listParamName)
+      const listType = parseTypeTree(listParam?.type)
+      if (listType.kind === 'list' && listType.item) {
+        checkValueType(nodeParams.value, listType.item, 'value').forEach((message) => addTypeMismatch('value', message))
+      }
+      if (listParam) {
+        checkValueConstraints(listParam, nodeParams.value, 'value').forEach((message) => addConstraintViolation('value', message))
+      }
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,229 @@
+import type { Module, Param } from '../modules'
+import { isPlainObject } from './typeGuards'
+
+/**
+ * Type checking of param values against Pythonic type strings
+ * (e.g. "int", "list[str]", "dict[str, list[int]]").
+ * Unlike parseType, which only keeps the innermost type, this walks the full type tree
+ * so nested lists/dicts and dict key types are checked too.
+ * Also enforces the value constraints a Param can declare (enum, min/max, pattern, lengths).
+ */
+
+export type TypeTree =
+  | { kind: 'list'; item: TypeTree | null } // item is null for a bare "list"
+  | { kind: 'dict'; key: TypeTree | null; value: TypeTree | null } // key/value are null for a bare "dict"
+  | { kind: 'scalar'; name: string }
+
+export interface ParamValueIssue {
+  paramName: string
+  message: string
+}
+
+// Split "str, dict[str, int]" on top-level commas only
+const splitTopLevel = (str: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of str) {
+    if (char === '[') depth++
+    if (char === ']') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current.trim())
+  return parts
+}
+
+export const parseTypeTree = (typeStr: string | undefined): TypeTree => {
+  const str = (typeStr ?? 'str').trim()
+
+  const listMatch = str.match(/^list(?:\[(.+)\])?$/)
+  if (listMatch) {
+    return { kind: 'list', item: listMatch[1] ? parseTypeTree(listMatch[1]) : null }
+  }
+
+  const dictMatch = str.match(/^dict(?:\[(.+)\])?$/)
+  if (dictMatch) {
+    if (!dictMatch[1]) return { kind: 'dict', key: null, value: null }
+    const parts = splitTopLevel(dictMatch[1])
+    // dict[type] (backwards compatibility) only constrains the values
+    if (parts.length === 1) return { kind: 'dict', key: null, value: parseTypeTree(parts[0]) }
+    return { kind: 'dict', key: parseTypeTree(parts[0]), value: parseTypeTree(parts.slice(1).join(', ')) }
+  }
+
+  return { kind: 'scalar', name: str }
+}
+
+export const formatTypeTree = (type: TypeTree | null): string => {
+  if (!type) return 'any'
+  if (type.kind === 'list') return type.item ? `list[${formatTypeTree(type.item)}]` : 'list'
+  if (type.kind === 'dict') {
+    if (!type.value) return 'dict'
+    return type.key ? `dict[${formatTypeTree(type.key)}, ${formatTypeTree(type.value)}]` : `dict[${formatTypeTree(type.value)}]`
+  }
+  return type.name
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'list'
+  if (typeof value === 'object') return 'dict'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float'
+  if (typeof value === 'boolean') return 'bool'
+  if (typeof value === 'string') return 'str'
+  return typeof value
+}
+
+// Returns undefined for scalar types this checker does not know (e.g. "stickers") - those accept anything
+const matchesScalar = (value: unknown, name: string): boolean | undefined => {
+  switch (name) {
+    case 'str':
+    case 'string':
+    case 'expr':
+    case 'template':
+    case 'var':
+      return typeof value === 'string'
+    case 'int':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'float':
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'bool':
+    case 'boolean':
+      return typeof value === 'boolean'
+    default:
+      return undefined
+  }
+}
+
+// JSON object keys are always strings, so key types are checked against the key's text
+const matchesKey = (key: string, type: TypeTree | null): boolean => {
+  if (!type || type.kind !== 'scalar') return true
+  switch (type.name) {
+    case 'int':
+      return /^-?\d+$/.test(key)
+    case 'float':
+    case 'number':
+      return key.trim() !== '' && Number.isFinite(Number(key))
+    case 'bool':
+    case 'boolean':
+      return key === 'true' || key === 'false'
+    default:
+      return true
+  }
+}
+
+const checkValue = (value: unknown, type: TypeTree | null, path: string, errors: string[]) => {
+  if (!type) return
+
+  if (type.kind === 'list') {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected ${formatTypeTree(type)}, got ${describeValue(value)}`)
+      return
+    }
+    value.forEach((item, index) => checkValue(item, type.item, `${path}[${index}]`, errors))
+    return
+  }
+
+  if (type.kind === 'dict') {
+    if (!isPlainObject(value)) {
+      errors.push(`${path}: expected ${formatTypeTree(type)}, got ${describeValue(value)}`)
+      return
+    }
+    Object.entries(value).forEach(([key, item]) => {
+      if (!matchesKey(key, type.key)) {
+        errors.push(`${path}: key "${key}" is not ${formatTypeTree(type.key)}`)
+      }
+      checkValue(item, type.value, `${path}["${key}"]`, errors)
+    })
+    return
+  }
+
+  if (matchesScalar(value, type.name) === false) {
+    errors.push(`${path}: expected ${type.name}, got ${describeValue(value)}`)
+  }
+}
+
+/**
+ * Check a value against a type string or parsed type.
+ * Returns one message per mismatch, prefixed with the path inside the value (e.g. `outputs[1]`).
+ */
+export const checkValueType = (value: unknown, type: string | TypeTree | undefined, path: string): string[] => {
+  const errors: string[] = []
+  checkValue(value, typeof type === 'string' || type === undefined ? parseTypeTree(type) : type, path, errors)
+  return errors
+}
+
+const isUnset = (value: unknown): boolean => value === undefined || value === null || value === ''
+
+/**
+ * Check every typed param of a module. Unset values are skipped - obligatory params are reported as missing elsewhere.
+ */
+export const checkParamTypes = (module: Module, params: Record<string, unknown>): ParamValueIssue[] => {
+  const mismatches: ParamValueIssue[] = []
+  module.params.forEach((param) => {
+    const value = params[param.name]
+    if (!param.type || isUnset(value)) return
+    checkValueType(value, param.type, param.name).forEach((message) => {
+      mismatches.push({ paramName: param.name, message })
+    })
+  })
+  return mismatches
+}
+
+/**
+ * Check a single (non-list) value against enum, min/max, pattern and maxLength.
+ */
+export const checkValueConstraints = (param: Param, value: unknown, path: string): string[] => {
+  const errors: string[] = []
+  if (param.enum && param.enum.length > 0 && !param.enum.some((option) => option === value)) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of ${param.enum.map((option) => JSON.stringify(option)).join(', ')}`)
+  }
+  if (typeof value === 'number') {
+    if (param.min !== undefined && value < param.min) errors.push(`${path}: ${value} is less than ${param.min}`)
+    if (param.max !== undefined && value > param.max) errors.push(`${path}: ${value} is greater than ${param.max}`)
+  }
+  if (typeof value === 'string') {
+    if (param.maxLength !== undefined && value.length > param.maxLength) {
+      errors.push(`${path}: longer than ${param.maxLength} characters`)
+    }
+    if (param.pattern) {
+      try {
+        if (!new RegExp(param.pattern).test(value)) errors.push(`${path}: does not match /${param.pattern}/`)
+      } catch {
+        // Invalid patterns are rejected when the catalog is loaded
+      }
+    }
+  }
+  return errors
+}
+
+/**
+ * Check every param of a module against its declared constraints.
+ * For list params, minItems/maxItems apply to the list and the other constraints to each item.
+ */
+export const checkParamConstraints = (module: Module, params: Record<string, unknown>): ParamValueIssue[] => {
+  const issues: ParamValueIssue[] = []
+  module.params.forEach((param) => {
+    const value = params[param.name]
+    if (isUnset(value)) return
+    const messages: string[] = []
+    if (Array.isArray(value)) {
+      if (param.minItems !== undefined && value.length < param.minItems) {
+        messages.push(`${param.name}: needs at least ${param.minItems} item${param.minItems === 1 ? '' : 's'}`)
+      }
+      if (param.maxItems !== undefined && value.length > param.maxItems) {
+        messages.push(`${param.name}: allows at most ${param.maxItems} item${param.maxItems === 1 ? '' : 's'}`)
+      }
+      value.forEach((item, index) => messages.push(...checkValueConstraints(param, item, `${param.name}[${index}]`)))
+    } else {
+      messages.push(...checkValueConstraints(param, value, param.name))
+    }
+    messages.forEach((message) => issues.push({ paramName: param.name, message }))
+  })
+  return issues
+}
@@ -0,0 +1,53 @@
+import { getDefaultValueForType } from './configHelpers'
+import { checkValueType } from './paramTypeCheck'
+import { isPlainObject } from './typeGuards'
+
+/**
+ * Task values are bot-level variables (current_bot_version.task_values), keyed by name.
+ * Entries written by the editor have the shape `{ type, default }`; any other shape coming from
+ * the backend is shown with an inferred type and kept unchanged until it is edited.
+ */
+
+export interface TaskValueDefinition {
+  name: string
+  type: string
+  default: unknown
+}
+
+export const TASK_VALUE_TYPES = ['str', 'int', 'float', 'bool', 'list', 'dict']
+
+// Same identifier rule as {{variable}} references
+export const TASK_VALUE_NAME_PATTERN = /^[A-Za-z_]\w*$/
+
+const inferType = (value: unknown): string => {
+  if (typeof value === 'boolean') return 'bool'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float'
+  if (Array.isArray(value)) return 'list'
+  if (isPlainObject(value)) return 'dict'
+  return 'str'
+}
+
+/**
+ * Read one raw task value entry as a definition.
+ */
+export const readTaskValue = (name: string, raw: unknown): TaskValueDefinition => {
+  if (isPlainObject(raw) && typeof raw.type === 'string' && 'default' in raw) {
+    return { name, type: raw.type, default: raw.default }
+  }
+  return { name, type: inferType(raw), default: raw ?? '' }
+}
+
+export const readTaskValues = (taskValues: Record<string, unknown> | undefined): TaskValueDefinition[] => {
+  return Object.entries(taskValues ?? {}).map(([name, raw]) => readTaskValue(name, raw))
+}
+
+export const writeTaskValue = (definition: TaskValueDefinition): { type: string; default: unknown } => {
+  return { type: definition.type, default: definition.default }
+}
+
+/**
+ * Default to keep when the type of a task value changes - the old one if it still fits, otherwise the type default.
+ */
+export const getDefaultForTypeChange = (currentDefault: unknown, type: string): unknown => {
+  return checkValueType(currentDefault, type, 'default').length === 0 ? currentDefault : getDefaultValueForType(type)
+}
@@ -0,0 +1,93 @@
+import type { DialogConfig } from './translationHelpers'
+import { fireHandler, startSimulation, type SimulationStep } from './flowSimulator'
+import { isStringArray } from './typeGuards'
+
+/**
+ * Scripted conversation tests stored with the flow (current_bot_version.test_scenarios):
+ * a sequence of handlers to fire from the root module and the module ids expected to be visited.
+ * They run on the exported DialogConfig, like the simulator.
+ */
+
+export interface TestScenario {
+  name: string
+  // Handlers fired in order, starting at the root module
+  handlers: string[]
+  // Module ids visited, root module included
+  expected_path: string[]
+}
+
+export interface TestScenarioResult {
+  name: string
+  passed: boolean
+  message: string
+  // Module where the run diverged from the scenario
+  moduleId?: string
+}
+
+/**
+ * Schema errors of a raw test_scenarios value (empty if it is valid or absent).
+ */
+export const validateTestScenarios = (raw: unknown): string[] => {
+  if (raw === undefined) return []
+  if (!Array.isArray(raw)) return ['test_scenarios must be an array']
+  const errors: string[] = []
+  raw.forEach((scenario, index) => {
+    if (typeof scenario !== 'object' || scenario === null || Array.isArray(scenario)) {
+      errors.push(`test_scenarios[${index}] must be an object`)
+      return
+    }
+    const { name, handlers, expected_path: expectedPath } = scenario as Record<string, unknown>
+    if (typeof name !== 'string' || !name) errors.push(`test_scenarios[${index}] is missing a string "name"`)
+    if (!isStringArray(handlers)) errors.push(`test_scenarios[${index}].handlers must be an array of strings`)
+    if (!isStringArray(expectedPath)) errors.push(`test_scenarios[${index}].expected_path must be an array of strings`)
+  })
+  return errors
+}
+
+/**
+ * Scenario that replays a simulator path.
+ */
+export const createTestScenario = (name: string, path: SimulationStep[]): TestScenario => {
+  return {
+    name,
+    handlers: path.slice(0, -1).map((step) => step.handler ?? ''),
+    expected_path: path.map((step) => step.moduleId),
+  }
+}
+
+export const runTestScenario = (dialog: DialogConfig, scenario: TestScenario): TestScenarioResult => {
+  const fail = (message: string, moduleId?: string): TestScenarioResult => ({ name: scenario.name, passed: false, message, moduleId })
+
+  let path = startSimulation(dialog)
+  if (path.length === 0) return fail('flow has no root module')
+
+  for (let i = 0; i < scenario.handlers.length; i++) {
+    const handler = scenario.handlers[i]
+    const moduleId = path[path.length - 1].moduleId
+    const handlers = dialog.modules[moduleId]?.handlers ?? {}
+    if (!(handler in handlers)) return fail(`step ${i + 1}: "${moduleId}" has no handler "${handler}"`, moduleId)
+    if (!handlers[handler]) return fail(`step ${i + 1}: handler "${handler}" of "${moduleId}" is not connected`, moduleId)
+    path = fireHandler(dialog, path, handler)
+  }
+
+  const visited = path.map((step) => step.moduleId)
+  const mismatch = scenario.expected_path.findIndex((expected, index) => visited[index] !== expected)
+  if (mismatch !== -1) {
+    const actual = visited[mismatch]
+    return fail(
+      actual === undefined
+        ? `expected "${scenario.expected_path[mismatch]}" at step ${mismatch}, but the run ended before it`
+        : `expected "${scenario.expected_path[mismatch]}" at step ${mismatch}, visited "${actual}"`,
+      actual ?? visited[visited.length - 1]
+    )
+  }
+  if (visited.length > scenario.expected_path.length) {
+    return fail(`visited "${visited[scenario.expected_path.length]}" after the expected path ended`, visited[scenario.expected_path.length])
+  }
+
+  return { name: scenario.name, passed: true, message: `passed (${visited.length} modules)` }
+}
+
+export const runTestScenarios = (dialog: DialogConfig, scenarios: TestScenario[]): TestScenarioResult[] => {
+  return scenarios.map((scenario) => runTestScenario(dialog, scenario))
+}
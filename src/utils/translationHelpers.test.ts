@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { type Node, type Edge } from 'reactflow'
+import testComplex from '../../test-complex.json'
+import { exportFlowToJson } from './exportHelpers'
+import {
+  translateCustomToReactFlow,
+  translateReactFlowToCustom,
+  type CustomFlowJson,
+  type DialogConfig,
+} from './translationHelpers'
+
+type DialogModule = DialogConfig['modules'][string]
+
+// Small seeded PRNG (mulberry32) so a failing dialog can be reproduced from its seed
+const createRandom = (seed: number) => {
+  let state = seed
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const int = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1))
+  const pick = <T>(items: T[]): T => items[int(0, items.length - 1)]
+  const chance = (probability: number): boolean => next() < probability
+  return { int, pick, chance }
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const SOURCE = { path: '', unpack_params: true }
+
+/**
+ * Builds a random valid dialog: simple modules with either handler name, listParam and internal branching,
+ * sticker modules, Exit modules, handlers pointing anywhere (cycles, self loops) or nowhere.
+ */
+const generateDialog = (random: Random): DialogConfig => {
+  const count = random.int(1, 12)
+  const kinds = Array.from({ length: count }, () =>
+    random.pick(['Type 1', 'Type 1', 'Type 2', 'Branching', 'Branching2', 'StickerModule', 'Exit'])
+  )
+  const ids = kinds.map((kind, index) => `${kind.toLowerCase().replace(/\s+/g, '_')}_${index + 1}`)
+  // Handler target: another module (cycles included) or not connected
+  const target = (): string => (random.chance(0.8) ? random.pick(ids) : '')
+
+  const modules: Record<string, DialogModule> = {}
+  const stickers: Record<string, unknown> = {}
+  kinds.forEach((kind, index) => {
+    const id = ids[index]
+    switch (kind) {
+      case 'Type 1': {
+        const handlerName = random.pick(['node_exit', 'on_1'])
+        modules[id] = {
+          type: kind,
+          params: { what: `Step ${index}`, how: random.int(0, 5), why: random.chance(0.5) },
+          handlers: random.chance(0.8) ? { [handlerName]: target() } : {},
+          source: SOURCE,
+        }
+        break
+      }
+      case 'Type 2':
+        modules[id] = { type: kind, params: { what: `Step ${index}` }, handlers: { node_exit: target() }, source: SOURCE }
+        break
+      case 'Branching': {
+        const outputs = Array.from({ length: random.int(1, 4) }, (_, i) => `Option ${i}`)
+        modules[id] = {
+          type: kind,
+          params: { outputs },
+          handlers: Object.fromEntries(outputs.map((_, i) => [`on_${i}`, target()])),
+          source: SOURCE,
+        }
+        break
+      }
+      case 'Branching2':
+        modules[id] = {
+          type: kind,
+          params: {},
+          handlers: { on_0: target(), on_1: target(), on_2: target() },
+          source: SOURCE,
+        }
+        break
+      case 'StickerModule': {
+        const stickerIds = Array.from({ length: random.int(1, 2) }, (_, i) => `sticker_${index}_${i}`)
+        stickerIds.forEach((stickerId) => {
+          stickers[stickerId] = { name: stickerId, description: '', appearance: { color: random.pick(['#f87171', '#4ade80']) } }
+        })
+        modules[id] = { type: kind, params: { stickerz: stickerIds }, handlers: { node_exit: target() }, source: SOURCE }
+        break
+      }
+      default:
+        modules[id] = { type: kind, params: {}, handlers: {}, source: SOURCE }
+    }
+  })
+
+  return {
+    modules,
+    root_module: random.pick(ids),
+    stickers,
+    initial_user_response_timeout: 1800,
+  }
+}
+
+const withDialog = (dialog: DialogConfig): CustomFlowJson => {
+  const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+  flow.current_bot_version.dialog = dialog
+  return flow
+}
+
+// Layout (_editor) is regenerated from the canvas, so it is left out of the comparison
+const withoutLayout = (flow: CustomFlowJson): CustomFlowJson => {
+  const copy = JSON.parse(JSON.stringify(flow)) as CustomFlowJson
+  const dialog = copy.current_bot_version.dialog as DialogConfig & { _editor?: unknown }
+  delete dialog._editor
+  Object.values(dialog.modules).forEach((module) => {
+    delete (module as DialogModule & { _editor?: unknown })._editor
+  })
+  return copy
+}
+
+// Through the canvas and back, as the raw translation output and as the editor exports it
+const roundTrip = (flow: CustomFlowJson) => {
+  const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+  const exported = exportFlowToJson(reactFlowData.nodes as Node[], reactFlowData.edges as Edge[])
+  return {
+    raw: translateReactFlowToCustom(reactFlowData, metadata),
+    exported: translateReactFlowToCustom(exported, metadata),
+  }
+}
+
+describe('translation round trip', () => {
+  it('keeps test-complex.json', () => {
+    const flow = testComplex as unknown as CustomFlowJson
+    const { raw, exported } = roundTrip(flow)
+    expect(withoutLayout(raw)).toEqual(withoutLayout(flow))
+    expect(withoutLayout(exported)).toEqual(withoutLayout(flow))
+  })
+
+  it('keeps the node_exit handlers of Type 1 modules', () => {
+    const { raw } = roundTrip(testComplex as unknown as CustomFlowJson)
+    const modules = raw.current_bot_version.dialog.modules
+    expect(modules.type_1_2.handlers).toEqual({ node_exit: 'branching_2' })
+    expect(modules.type_1_11.handlers).toEqual({})
+  })
+
+  it('keeps handlers to missing modules and disconnects handlers to deleted ones', () => {
+    const flow = JSON.parse(JSON.stringify(testComplex)) as CustomFlowJson
+    flow.current_bot_version.dialog.modules.type_1_11.handlers = { node_exit: 'missing_module' }
+    const { reactFlowData, metadata } = translateCustomToReactFlow(flow)
+    const nodes = reactFlowData.nodes.filter((node) => node.id !== 'type_1_15')
+    const edges = reactFlowData.edges.filter((edge) => edge.target !== 'type_1_15')
+
+    const { modules } = translateReactFlowToCustom({ nodes, edges }, metadata).current_bot_version.dialog
+
+    expect(modules.type_1_11.handlers).toEqual({ node_exit: 'missing_module' })
+    expect(modules.type_1_10.handlers).toEqual({ node_exit: '' })
+  })
+
+  it('keeps layout-free fields of random dialogs', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const flow = withDialog(generateDialog(createRandom(seed)))
+      const { raw, exported } = roundTrip(flow)
+      expect(withoutLayout(raw), `seed ${seed}`).toEqual(withoutLayout(flow))
+      expect(withoutLayout(exported), `seed ${seed}`).toEqual(withoutLayout(flow))
+    }
+  })
+})
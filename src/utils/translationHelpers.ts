@@ -1,10 +1,14 @@
 import { type Node, type Edge, MarkerType } from 'reactflow'
-import { type NodeType, isBranchingOutputNodeType, isBranchingNodeType, nodeConfigs } from '../nodeConfigs'
-import modules from '../modules'
+import { type NodeType, isBranchingOutputNodeType, isBranchingNodeType, isUnknownNodeType, nodeConfigs, NODE_TYPES } from '../nodeConfigs'
+import { moduleRegistry, type Module } from '../modules'
 import { REACTFLOW_NODE_TYPE, createBranchingNodeWithOutputs, createNodeFromConfig } from './nodeCreation'
 import { autoLayout } from './layoutHelpers'
 import { calculateOutputNodePosition, getBranchingLayoutConstants, calculateBranchingNodeHeight } from './branchingNodeHelpers'
 import { isStartModule, getStartModule, isStickerNode } from './moduleHelpers'
+import { migrateModuleParams, type ModuleMigrationReport } from './moduleMigrations'
+import { checkParamConstraints, checkParamTypes } from './paramTypeCheck'
+import { DEFAULT_CHANNEL } from './channels'
+import { validateTestScenarios, type TestScenario } from './testScenarios'
 
 // Custom JSON format types
 export interface CustomFlowMetadata {
@@ -12,23 +16,104 @@ export interface CustomFlowMetadata {
   language: string
   mchannels_bot_id: string
   name: string
+  // Channel the bot version runs on (voice, chat, sms); defaults to voice
+  channel?: string
   omnichannel_config?: {
     [key: string]: any
   }
   stickers?: {
     [key: string]: any
   }
+  // Flow-level variables (current_bot_version.task_values)
+  task_values?: {
+    [key: string]: unknown
+  }
+  // Scripted conversation tests (current_bot_version.test_scenarios)
+  test_scenarios?: TestScenario[]
+  // Backend fields the editor does not edit, re-emitted unchanged on export
+  preserved?: PreservedBackendFields
+}
+
+// Metadata of a new, empty flow
+export const createEmptyFlowMetadata = (): CustomFlowMetadata => ({
+  description: '',
+  language: '',
+  mchannels_bot_id: '',
+  name: '',
+  channel: DEFAULT_CHANNEL,
+  omnichannel_config: {},
+  stickers: {},
+  task_values: {},
+})
+
+export interface PreservedBackendFields {
+  // Top-level fields (account_id, id, labels, ...)
+  flow?: Record<string, unknown>
+  // current_bot_version fields (bot_id, created_at, permanent, ...)
+  current_bot_version?: Record<string, unknown>
+  // dialog fields (initial_user_response_timeout, ...)
+  dialog?: Record<string, unknown>
+}
+
+// Fields the editor manages itself - everything else is carried in metadata.preserved / node.data.extraFields
+const MANAGED_FLOW_FIELDS = ['current_bot_version']
+const MANAGED_BOT_VERSION_FIELDS = ['description', 'language', 'mchannels_bot_id', 'name', 'channel', 'omnichannel_config', 'task_values', 'test_scenarios', 'dialog']
+const MANAGED_DIALOG_FIELDS = ['modules', 'root_module', 'stickers', '_editor']
+const MANAGED_MODULE_FIELDS = ['type', 'version', 'params', 'handlers', 'source', '_editor']
+
+const pickUnmanagedFields = (source: object | undefined, managedFields: string[]): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(source ?? {}).filter(([key]) => !managedFields.includes(key)))
 }
 
+/**
+ * Backend fields of a flow record the editor does not manage (ids, timestamps, ...), as kept in metadata.preserved.
+ */
+export const getPreservedBackendFields = (customData: CustomFlowJson): PreservedBackendFields => ({
+  flow: pickUnmanagedFields(customData, MANAGED_FLOW_FIELDS),
+  current_bot_version: pickUnmanagedFields(customData.current_bot_version, MANAGED_BOT_VERSION_FIELDS),
+  dialog: pickUnmanagedFields(customData.current_bot_version?.dialog, MANAGED_DIALOG_FIELDS),
+})
+
 // Dialog / bot JSON structure (high‑level target format for the JSON editor)
 export interface DialogModule {
   type: string
+  // Version of the module definition the params were written for (see Module.version)
+  version?: number
   params: Record<string, any>
   handlers?: Record<string, string>
   source?: {
     path?: string
     unpack_params?: boolean
   }
+  // Editor layout (ignored by the backend)
+  _editor?: ModuleEditorData
+}
+
+export interface EditorPosition {
+  x: number
+  y: number
+}
+
+// Canvas layout of a module, stored in the exported dialog so an import keeps the arrangement
+export interface ModuleEditorData {
+  position?: EditorPosition
+  // Branching nodes only
+  size?: { width: number; height: number }
+}
+
+// Canvas layout of the nodes that are not modules
+export interface DialogEditorData {
+  start_position?: EditorPosition
+}
+
+// Original definition of a module whose type is not in the catalog.
+// Stored on the node (data.unknownModule) so it can be exported unchanged.
+export interface UnknownModuleData {
+  type: string
+  version?: number
+  // Handler keys in their original order, with their original targets
+  handlers: Record<string, string>
+  source?: DialogModule['source']
 }
 
 export interface DialogConfig {
@@ -36,6 +121,7 @@ export interface DialogConfig {
   root_module: string
   stickers: Record<string, any>
   initial_user_response_timeout: number
+  _editor?: DialogEditorData
 }
 
 export interface CurrentBotVersion {
@@ -81,6 +167,9 @@ export interface ReactFlowJson {
       nodeType?: NodeType
       [key: string]: any
     }
+    // Size of branching nodes (see exportNodeToJson)
+    width?: number | null
+    height?: number | null
   }>
   edges: Array<{
     id: string
@@ -95,7 +184,7 @@ export interface ReactFlowJson {
  * Get handler names for a module from its configuration.
  * Returns the handlers array from module config, or defaults based on node type.
  */
-function getHandlerNamesForModule(moduleMeta: typeof modules[number] | undefined, nodeType: NodeType): string[] {
+function getHandlerNamesForModule(moduleMeta: Module | undefined, nodeType: NodeType): string[] {
   // If module has explicit handlers configured, use them
   if (moduleMeta?.handlers && moduleMeta.handlers.length > 0) {
     return moduleMeta.handlers
@@ -111,6 +200,101 @@ function getHandlerNamesForModule(moduleMeta: typeof modules[number] | undefined
   return ['on_1']
 }
 
+/**
+ * Pick the handler key an edge from a module node stands for.
+ * Imported edges carry the key in their id (e_<source>_<target>_<key>); edges drawn in the
+ * editor take the first handler key that is still free.
+ */
+function getEdgeHandlerKey(
+  edge: ReactFlowJson['edges'][number],
+  handlerKeys: string[],
+  assigned: Record<string, string>
+): string | undefined {
+  const idPrefix = `e_${edge.source}_${edge.target}_`
+  if (edge.id.startsWith(idPrefix)) {
+    const key = edge.id.slice(idPrefix.length)
+    if (handlerKeys.includes(key)) return key
+  }
+  return handlerKeys.find((key) => !assigned[key])
+}
+
+const toEditorPosition = (position: { x: number; y: number } | undefined): EditorPosition | undefined => {
+  if (!position || !Number.isFinite(position.x) || !Number.isFinite(position.y)) return undefined
+  return { x: Math.round(position.x), y: Math.round(position.y) }
+}
+
+/**
+ * Layout of a module node as exported in module._editor.
+ */
+function getModuleEditorData(node: ReactFlowJson['nodes'][number]): ModuleEditorData | undefined {
+  const position = toEditorPosition(node.position)
+  const nodeType = (node.data?.nodeType || node.type) as NodeType
+  const size =
+    isBranchingNodeType(nodeType) && typeof node.width === 'number' && typeof node.height === 'number'
+      ? { width: Math.round(node.width), height: Math.round(node.height) }
+      : undefined
+  if (!position && !size) return undefined
+  return { ...(position ? { position } : {}), ...(size ? { size } : {}) }
+}
+
+// Imported layouts are not validated by the backend; anything malformed is ignored
+function readEditorPosition(value: unknown): EditorPosition | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const { x, y } = value as Record<string, unknown>
+  return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined
+}
+
+function readModuleEditorData(value: unknown): ModuleEditorData | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const { position, size } = value as Record<string, unknown>
+  const editorPosition = readEditorPosition(position)
+  const { width, height } = (typeof size === 'object' && size !== null ? size : {}) as Record<string, unknown>
+  const editorSize =
+    typeof width === 'number' && typeof height === 'number' && width > 0 && height > 0 ? { width, height } : undefined
+  if (!editorPosition && !editorSize) return undefined
+  return { ...(editorPosition ? { position: editorPosition } : {}), ...(editorSize ? { size: editorSize } : {}) }
+}
+
+/**
+ * Move imported nodes to the layout stored in the dialog (_editor). Branching outputs follow their
+ * parent; nodes that already exist on the canvas keep their position.
+ */
+function applyStoredLayout(nodes: Node[], dialog: DialogConfig, existingNodesMap: Map<string, Node>): Node[] {
+  const layouts = new Map<string, ModuleEditorData>()
+  Object.entries(dialog.modules).forEach(([moduleId, module]) => {
+    const layout = readModuleEditorData(module._editor)
+    if (layout) layouts.set(moduleId, layout)
+  })
+  const startPosition = readEditorPosition(dialog._editor?.start_position)
+  if (layouts.size === 0 && !startPosition) return nodes
+
+  const layoutConstants = getBranchingLayoutConstants()
+  return nodes.map((node) => {
+    if (existingNodesMap.has(node.id)) return node
+
+    const parentId = node.data?.parentNodeId as string | undefined
+    if (parentId) {
+      const parentPosition = layouts.get(parentId)?.position
+      if (!parentPosition || existingNodesMap.has(parentId) || typeof node.data?.outputIndex !== 'number') return node
+      return { ...node, position: calculateOutputNodePosition(parentPosition, node.data.outputIndex, layoutConstants) }
+    }
+
+    if (isStartModule(node.data?.moduleName)) {
+      return startPosition ? { ...node, position: startPosition } : node
+    }
+
+    const layout = layouts.get(node.id)
+    if (!layout) return node
+    return {
+      ...node,
+      ...(layout.position ? { position: layout.position } : {}),
+      ...(layout.size
+        ? { style: { ...node.style, ...layout.size }, width: layout.size.width, height: layout.size.height }
+        : {}),
+    }
+  })
+}
+
 /**
  * Helper: build dialog.modules + handlers map from ReactFlow nodes/edges.
  *
@@ -119,7 +303,7 @@ function getHandlerNamesForModule(moduleMeta: typeof modules[number] | undefined
  * - Branching nodes collect handlers from their output nodes as "on_0", "on_1", ...
  * - All nodes have handlers in the output (empty string if unconnected).
  */
-function buildDialogFromReactFlow(
+export function buildDialogFromReactFlow(
   reactFlowData: ReactFlowJson,
   metadata: CustomFlowMetadata,
   rootModuleIdHint?: string
@@ -155,11 +339,16 @@ function buildDialogFromReactFlow(
     const nodeType = (node.data?.nodeType || node.type) as NodeType
 
     const moduleMeta = node.data?.moduleName
-      ? modules.find((m) => m.name === node.data.moduleName)
+      ? moduleRegistry.byName(node.data.moduleName)
+      : undefined
+
+    // Unknown modules keep the type they were imported with
+    const unknownModule = isUnknownNodeType(nodeType)
+      ? (node.data?.unknownModule as UnknownModuleData | undefined)
       : undefined
 
     // Use name (now required field)
-    let moduleTypeString = moduleMeta?.name ?? (nodeType as string) ?? 'single'
+    let moduleTypeString = unknownModule?.type ?? moduleMeta?.name ?? (nodeType as string) ?? 'single'
 
     // Start with all params from the node
     let params = { ...(node.data?.params || {}) } as Record<string, any>
@@ -234,8 +423,10 @@ function buildDialogFromReactFlow(
       params[listParamName] = listParamArray
     }
 
-    // Build source field from module config
-    const source: DialogModule['source'] = moduleMeta?.source
+    // Build source field from module config (unknown modules keep their original source)
+    const source: DialogModule['source'] = unknownModule?.source
+      ? { ...unknownModule.source }
+      : moduleMeta?.source
       ? {
         path: moduleMeta.source.path ?? '',
         unpack_params: moduleMeta.source.unpack_params ?? true,
@@ -245,11 +436,16 @@ function buildDialogFromReactFlow(
         unpack_params: true,
       }
 
+    const moduleVersion = unknownModule ? unknownModule.version : moduleMeta?.version
+
     modulesRecord[nodeId] = {
       type: moduleTypeString,
+      ...(moduleVersion !== undefined ? { version: moduleVersion } : {}),
       params,
       handlers: {},
       source,
+      // Module fields the editor does not understand, kept from import
+      ...(node.data?.extraFields as Record<string, unknown> | undefined),
     }
   }
 
@@ -306,19 +502,32 @@ function buildDialogFromReactFlow(
     if (!modulesRecord[edge.source]) continue
     const module = modulesRecord[edge.source]
     const sourceNodeType = (sourceNode.data?.nodeType || sourceNode.type) as NodeType
+
+    // Unknown module: map the edge back onto one of its original handler keys
+    if (isUnknownNodeType(sourceNodeType)) {
+      const unknownModule = sourceNode.data?.unknownModule as UnknownModuleData | undefined
+      if (!module.handlers) module.handlers = {}
+      const handlerKey = getEdgeHandlerKey(edge, Object.keys(unknownModule?.handlers ?? {}), module.handlers)
+      if (handlerKey) {
+        module.handlers[handlerKey] = edge.target
+      }
+      continue
+    }
     const sourceModuleMeta = sourceNode.data?.moduleName
-      ? modules.find((m) => m.name === sourceNode.data.moduleName)
+      ? moduleRegistry.byName(sourceNode.data.moduleName)
       : undefined
 
-    // Get handler names from module config
-    const handlerNames = getHandlerNamesForModule(sourceModuleMeta, sourceNodeType)
+    // Handler names the module was imported with, else the ones from the module config
+    const importedHandlerNames = Object.keys((sourceNode.data?.importedHandlers as Record<string, string> | undefined) ?? {})
+    const handlerNames = importedHandlerNames.length > 0
+      ? importedHandlerNames
+      : getHandlerNamesForModule(sourceModuleMeta, sourceNodeType)
 
-    // Use the first handler name (most modules have a single handler)
-    // If multiple handlers exist, we'd need to determine which one to use based on edge context
-    // For now, assume single handler per simple node
+    // The edge keeps its handler when its id names one; otherwise it takes the first free handler
+    // (or the first handler when all are taken - most modules have a single handler)
     if (handlerNames.length > 0) {
       if (!module.handlers) module.handlers = {}
-      const handlerName = handlerNames[0]
+      const handlerName = getEdgeHandlerKey(edge, handlerNames, module.handlers) ?? handlerNames[0]
       module.handlers[handlerName] = edge.target
     }
   }
@@ -330,13 +539,32 @@ function buildDialogFromReactFlow(
     const node = nodesById.get(nodeId)!
     const nodeType = (node.data?.nodeType || node.type) as NodeType
     const moduleMeta = node.data?.moduleName
-      ? modules.find((m) => m.name === node.data.moduleName)
+      ? moduleRegistry.byName(node.data.moduleName)
       : undefined
 
     const module = modulesRecord[nodeId]
     if (!module.handlers) module.handlers = {}
+    // Handlers the module was imported with (known modules)
+    const importedHandlers = node.data?.importedHandlers as Record<string, string> | undefined
+
+    // Keep every original handler key, in original order.
+    // Targets that never became edges (e.g. missing modules) are kept as imported.
+    const withOriginalHandlers = (originalHandlers: Record<string, string>): Record<string, string> => {
+      const connectedHandlers = module.handlers ?? {}
+      const orderedHandlers: Record<string, string> = {}
+      Object.entries(originalHandlers).forEach(([key, target]) => {
+        if (key in connectedHandlers) {
+          orderedHandlers[key] = connectedHandlers[key]
+        } else {
+          orderedHandlers[key] = target && !nodesById.has(target) ? target : ''
+        }
+      })
+      return { ...orderedHandlers, ...connectedHandlers }
+    }
 
-    if (isBranchingNodeType(nodeType)) {
+    if (isUnknownNodeType(nodeType)) {
+      module.handlers = withOriginalHandlers((node.data?.unknownModule as UnknownModuleData | undefined)?.handlers ?? {})
+    } else if (isBranchingNodeType(nodeType)) {
       // For branching nodes: ensure all output nodes have handlers
       const allOutputNodes = reactFlowData.nodes.filter((n) =>
         n.data?.parentNodeId === nodeId
@@ -362,13 +590,17 @@ function buildDialogFromReactFlow(
         }
       }
 
-      // Also check configured handlers for branching nodes (e.g., Branching2 has ["on_0", "on_1"])
-      const configuredHandlers = getHandlerNamesForModule(moduleMeta, nodeType)
+      // Also check configured handlers for branching nodes (e.g., Branching2 has ["on_0", "on_1"]);
+      // an imported module keeps the handlers it came with
+      const configuredHandlers = importedHandlers ? [] : getHandlerNamesForModule(moduleMeta, nodeType)
       for (const handlerName of configuredHandlers) {
         if (!(handlerName in module.handlers)) {
           module.handlers[handlerName] = ''
         }
       }
+    } else if (importedHandlers) {
+      // Imported simple nodes keep the handler keys they came with
+      module.handlers = withOriginalHandlers(importedHandlers)
     } else {
       // For simple nodes: ensure all configured handlers exist
       const handlerNames = getHandlerNamesForModule(moduleMeta, nodeType)
@@ -438,7 +670,7 @@ function buildDialogFromReactFlow(
     if (isStickerNode(node)) {
       // Find the parameter with type "stickers" (not just a parameter named "stickers")
       const moduleName = node.data?.moduleName
-      const moduleMeta = moduleName ? modules.find(m => m.name === moduleName) : undefined
+      const moduleMeta = moduleName ? moduleRegistry.byName(moduleName) : undefined
       const stickersParam = moduleMeta?.params?.find(p => p.type === 'stickers')
       const stickersParamName = stickersParam?.name
       const stickerIds = stickersParamName ? (node.data?.params?.[stickersParamName] as string[] | undefined) : undefined
@@ -481,8 +713,8 @@ function buildDialogFromReactFlow(
  *     mchannels_bot_id,
  *     name,
  *     permanent: true,
- *     task_values: {},
- *     channel: "voice",
+ *     task_values,
+ *     channel,
  *     bot_id: "",
  *     created_at: "",
  *     id: "",
@@ -491,33 +723,54 @@ function buildDialogFromReactFlow(
  *     omnichannel_config
  *   }
  * }
+ *
+ * Fields kept in metadata.preserved (from an earlier import) replace the empty defaults.
  */
 export function translateReactFlowToCustom(
   reactFlowData: ReactFlowJson,
   metadata: CustomFlowMetadata
 ): CustomFlowJson {
   const dialog = buildDialogFromReactFlow(reactFlowData, metadata)
-
-  // Derive dialog-level initial timeout from omnichannel_config if available
+  const preserved = metadata.preserved ?? {}
+
+  // Store the canvas layout with the modules so the next import restores it
+  const nodesById = new Map(reactFlowData.nodes.map((node) => [node.id, node]))
+  const modulesWithLayout = Object.fromEntries(
+    Object.entries(dialog.modules).map(([moduleId, module]) => {
+      const node = nodesById.get(moduleId)
+      const editorData = node ? getModuleEditorData(node) : undefined
+      return [moduleId, editorData ? { ...module, _editor: editorData } : module]
+    })
+  )
+  const startNode = reactFlowData.nodes.find((node) => isStartModule(node.data?.moduleName))
+  const startPosition = toEditorPosition(startNode?.position)
+
+  // Derive dialog-level initial timeout from omnichannel_config if available, else keep the imported one
   const omniVoice = metadata.omnichannel_config?.voice ?? {}
+  const preservedInitialTimeout = preserved.dialog?.initial_user_response_timeout
   const dialogInitialTimeout =
     typeof omniVoice.initial_user_response_timeout === 'number'
       ? omniVoice.initial_user_response_timeout
+      : typeof preservedInitialTimeout === 'number'
+      ? preservedInitialTimeout
       : dialog.initial_user_response_timeout
 
   const enrichedDialog: DialogConfig = {
     ...dialog,
+    ...preserved.dialog,
+    modules: modulesWithLayout,
     initial_user_response_timeout: dialogInitialTimeout,
     // Propagate collected stickers into the dialog so they are available in exported JSON
     stickers: dialog.stickers,
+    ...(startPosition ? { _editor: { start_position: startPosition } } : {}),
   }
 
   const currentBotVersion: CurrentBotVersion = {
     description: metadata.description,
     permanent: true,
-    task_values: {},
+    task_values: metadata.task_values || {},
     language: metadata.language,
-    channel: 'voice',
+    channel: metadata.channel || DEFAULT_CHANNEL,
     bot_id: '',
     mchannels_bot_id: metadata.mchannels_bot_id,
     created_at: '',
@@ -526,6 +779,9 @@ export function translateReactFlowToCustom(
     name: metadata.name,
     dialog: enrichedDialog,
     omnichannel_config: metadata.omnichannel_config || {},
+    ...(metadata.test_scenarios && metadata.test_scenarios.length > 0 ? { test_scenarios: metadata.test_scenarios } : {}),
+    // Imported backend fields (ids, timestamps, ...) replace the defaults above
+    ...preserved.current_bot_version,
   }
 
   return {
@@ -534,6 +790,7 @@ export function translateReactFlowToCustom(
     created_at: '',
     id: '',
     labels: [],
+    ...preserved.flow,
     current_bot_version: currentBotVersion,
   }
 }
@@ -549,8 +806,11 @@ export function translateCustomToReactFlow(
 ): {
   reactFlowData: ReactFlowJson
   metadata: CustomFlowMetadata
+  // Modules whose params were upgraded from an older module version
+  migrationReport: ModuleMigrationReport[]
 } {
   const dialog = customData.current_bot_version?.dialog
+  const migrationReport: ModuleMigrationReport[] = []
 
   const reactFlowNodes: Node[] = []
   const reactFlowEdges: Edge[] = []
@@ -567,6 +827,10 @@ export function translateCustomToReactFlow(
 
   if (dialog && dialog.modules) {
     const entries = Object.entries(dialog.modules)
+    // Handler keys a known module came with. Targets in the dialog become edges; only targets missing
+    // from it are kept, so removing a target module on the canvas disconnects the handler.
+    const getImportedHandlers = (handlers: Record<string, string>): Record<string, string> =>
+      Object.fromEntries(Object.entries(handlers).map(([key, target]) => [key, target in dialog.modules ? '' : target]))
 
     // First pass: create module nodes (including branching parents and any auto-generated outputs)
     const branchingParentIds = new Set<string>()
@@ -576,13 +840,21 @@ export function translateCustomToReactFlow(
       let moduleTypeStr = moduleDef.type as string
 
       // Find module definition by name (now the only identifier)
-      const moduleMeta = modules.find((m) => m.name === moduleTypeStr)
+      const moduleMeta = moduleRegistry.byName(moduleTypeStr)
 
+      // Modules missing from the catalog become "unknown" nodes that keep the original definition
       const nodeType: NodeType =
-        (moduleMeta?.type as NodeType) ?? ('single' as NodeType)
+        (moduleMeta?.type as NodeType) ?? NODE_TYPES.UNKNOWN
 
       let params = (moduleDef.params || {}) as Record<string, any>
 
+      // Upgrade params saved for an older version of the module
+      if (moduleMeta) {
+        const migration = migrateModuleParams(moduleId, moduleMeta, params, moduleDef.version)
+        params = migration.params
+        if (migration.report) migrationReport.push(migration.report)
+      }
+
       if (isBranchingNodeType(nodeType) && moduleMeta?.outputConfig) {
         // Branching node – create parent + output nodes using helper
         let outputCount = 1
@@ -646,6 +918,7 @@ export function translateCustomToReactFlow(
           moduleName: moduleMeta.name,
           nodeType,
           params,
+          ...(moduleDef.handlers ? { importedHandlers: getImportedHandlers(moduleDef.handlers) } : {}),
         }
         // Preserve position from existing node if available
         if (existingParent) {
@@ -756,6 +1029,22 @@ export function translateCustomToReactFlow(
           ...node.data,
           moduleName: moduleMeta?.name || moduleTypeStr,
           params,
+          ...(moduleMeta && moduleDef.handlers ? { importedHandlers: getImportedHandlers(moduleDef.handlers) } : {}),
+        }
+        if (!moduleMeta) {
+          const unknownModule: UnknownModuleData = {
+            type: moduleTypeStr,
+            ...(moduleDef.version !== undefined ? { version: moduleDef.version } : {}),
+            handlers: { ...(moduleDef.handlers || {}) },
+            ...(moduleDef.source ? { source: { ...moduleDef.source } } : {}),
+          }
+          node.data = {
+            ...node.data,
+            ...nodeConfigs[NODE_TYPES.UNKNOWN],
+            nodeType,
+            label: moduleTypeStr,
+            unknownModule,
+          }
         }
         // Preserve position and other properties from existing node if available
         if (existingNode) {
@@ -768,6 +1057,14 @@ export function translateCustomToReactFlow(
       }
     }
 
+    // Keep module fields the editor does not understand so they are exported unchanged
+    for (const [moduleId, moduleDef] of entries) {
+      const extraFields = pickUnmanagedFields(moduleDef, MANAGED_MODULE_FIELDS)
+      if (Object.keys(extraFields).length === 0) continue
+      const node = reactFlowNodes.find((n) => n.id === moduleId)
+      if (node) node.data = { ...node.data, extraFields }
+    }
+
     // Track added edge IDs to prevent duplicates
     const addedEdgeIds = new Set<string>()
 
@@ -936,12 +1233,14 @@ export function translateCustomToReactFlow(
     }
 
     // Only apply automatic layout if we don't have existing nodes to preserve
-    // This prevents breaking the layout when translating back
-    const layoutResult = existingNodes && existingNodes.length > 0
+    // This prevents breaking the layout when translating back.
+    // A dialog that stores a position for every module (_editor) is not laid out either.
+    const hasStoredLayout = entries.every(([, moduleDef]) => readEditorPosition(moduleDef._editor?.position))
+    const layoutResult = (existingNodes && existingNodes.length > 0) || hasStoredLayout
       ? { nodes: reactFlowNodes, edges: reactFlowEdges } // Use nodes as-is, preserving positions
       : autoLayout(reactFlowNodes, reactFlowEdges, rootModuleId, undefined) // Apply layout only for new graphs
 
-    const laidOutNodes = layoutResult.nodes
+    const laidOutNodes = applyStoredLayout(layoutResult.nodes, dialog, existingNodesMap)
     const laidOutEdges = layoutResult.edges
 
     return {
@@ -963,9 +1262,14 @@ export function translateCustomToReactFlow(
         language: customData.current_bot_version?.language || '',
         mchannels_bot_id: customData.current_bot_version?.mchannels_bot_id || '',
         name: customData.current_bot_version?.name || '',
+        channel: customData.current_bot_version?.channel || DEFAULT_CHANNEL,
         omnichannel_config: customData.current_bot_version?.omnichannel_config || {},
         stickers: dialog.stickers || {},
+        task_values: customData.current_bot_version?.task_values || {},
+        test_scenarios: customData.current_bot_version?.test_scenarios || [],
+        preserved: getPreservedBackendFields(customData),
       },
+      migrationReport,
     }
   }
 
@@ -982,7 +1286,9 @@ export function translateCustomToReactFlow(
       name: '',
       omnichannel_config: {},
       stickers: {},
+      task_values: {},
     },
+    migrationReport,
   }
 }
 
@@ -1013,6 +1319,13 @@ export function validateCustomJson(customData: CustomFlowJson): {
     if (typeof cbv.name !== 'string') {
       errors.push('current_bot_version.name must be a string')
     }
+    if (cbv.channel !== undefined && typeof cbv.channel !== 'string') {
+      errors.push('current_bot_version.channel must be a string if provided')
+    }
+    if (cbv.task_values !== undefined && (typeof cbv.task_values !== 'object' || cbv.task_values === null || Array.isArray(cbv.task_values))) {
+      errors.push('current_bot_version.task_values must be an object if provided')
+    }
+    errors.push(...validateTestScenarios(cbv.test_scenarios).map((error) => `current_bot_version.${error}`))
   }
 
   if (!dialog || typeof dialog !== 'object') {
@@ -1037,6 +1350,9 @@ export function validateCustomJson(customData: CustomFlowJson): {
         if (!moduleDef.params || typeof moduleDef.params !== 'object') {
           errors.push(`Module "${id}" must have a "params" object`)
         }
+        if (moduleDef.version !== undefined && typeof moduleDef.version !== 'number') {
+          errors.push(`Module "${id}" has invalid "version" (must be a number)`)
+        }
         if (moduleDef.handlers && typeof moduleDef.handlers !== 'object') {
           errors.push(`Module "${id}" has invalid "handlers" (must be an object)`)
         }
@@ -1052,6 +1368,19 @@ export function validateCustomJson(customData: CustomFlowJson): {
           // Don't validate that handlers reference existing modules - just type check
         })
       }
+
+      // Type check: params of known modules must match their declared types and constraints
+      // (params saved for an older module version are migrated on import, so they are not checked here)
+      for (const [id, moduleDef] of moduleEntries) {
+        const { type, params, version } = moduleDef as DialogModule
+        const moduleMeta = typeof type === 'string' ? moduleRegistry.byName(type) : undefined
+        if (!moduleMeta || !params || typeof params !== 'object') continue
+        if ((version ?? 0) < (moduleMeta.version ?? 0)) continue
+        const paramIssues = [...checkParamTypes(moduleMeta, params), ...checkParamConstraints(moduleMeta, params)]
+        paramIssues.forEach(({ message }) => {
+          errors.push(`Module "${id}" param ${message}`)
+        })
+      }
     }
 
     // Type check: root_module should be a string (but don't validate it exists)
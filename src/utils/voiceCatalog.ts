@@ -0,0 +1,217 @@
+import { isPlainObject, isStringArray } from './typeGuards'
+
+/**
+ * Catalog of languages, TTS voices and STT models offered in the flow configuration.
+ * Loaded from VITE_VOICE_CATALOG_URL (a static JSON file or an endpoint returning the same shape);
+ * the built-in catalog is used when it is not configured or cannot be loaded.
+ */
+
+export interface CatalogLanguage {
+  code: string // e.g. "cs" or "en-US"
+  label?: string
+}
+
+export interface TtsVoice {
+  id: string
+  language: string
+  label?: string
+}
+
+export interface TtsProvider {
+  name: string
+  voices: TtsVoice[]
+}
+
+export interface SttModel {
+  id: string
+  label?: string
+  // Languages the model supports; all languages of the provider if not set
+  languages?: string[]
+}
+
+export interface SttProvider {
+  name: string
+  // Languages the provider supports; all languages if not set
+  languages?: string[]
+  models?: SttModel[]
+}
+
+export interface VoiceCatalog {
+  languages: CatalogLanguage[]
+  tts: TtsProvider[]
+  stt: SttProvider[]
+}
+
+export interface VoiceCatalogResult {
+  catalog: VoiceCatalog
+  source: 'remote' | 'default'
+  // Why the built-in catalog is used, or which parts of the remote one were invalid
+  errors: string[]
+}
+
+export const DEFAULT_VOICE_CATALOG: VoiceCatalog = {
+  languages: [{ code: 'cs' }, { code: 'en' }, { code: 'de' }],
+  tts: [
+    {
+      name: 'mvoice',
+      voices: [
+        { id: 'cs-CZ_TomasU8', language: 'cs-CZ' },
+        { id: 'cs-CZ_JanaU8', language: 'cs-CZ' },
+      ],
+    },
+    {
+      name: 'azure',
+      voices: [{ id: 'en-US_Alloy', language: 'en-US' }],
+    },
+  ],
+  stt: [{ name: 'azure' }, { name: 'mvoice' }],
+}
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string'
+
+/**
+ * URL of the voice catalog. Configured through VITE_VOICE_CATALOG_URL (e.g. /voice-catalog.json).
+ */
+export const getVoiceCatalogUrl = (): string => {
+  return import.meta.env.VITE_VOICE_CATALOG_URL ?? ''
+}
+
+/**
+ * Validate a raw catalog. Invalid entries are dropped and reported; missing sections fall back to the built-in ones.
+ */
+export const parseVoiceCatalog = (raw: unknown): { catalog: VoiceCatalog; errors: string[] } => {
+  if (!isPlainObject(raw)) {
+    return { catalog: DEFAULT_VOICE_CATALOG, errors: ['Voice catalog must be an object'] }
+  }
+  const errors: string[] = []
+
+  const readList = <T>(key: keyof VoiceCatalog, validate: (entry: Record<string, unknown>, path: string) => string[]): T[] => {
+    const value = raw[key]
+    if (value === undefined) return DEFAULT_VOICE_CATALOG[key] as T[]
+    if (!Array.isArray(value)) {
+      errors.push(`"${key}" must be an array`)
+      return DEFAULT_VOICE_CATALOG[key] as T[]
+    }
+    return value.filter((entry, index) => {
+      const path = `${key}[${index}]`
+      const entryErrors = isPlainObject(entry) ? validate(entry, path) : [`${path} must be an object`]
+      errors.push(...entryErrors)
+      return entryErrors.length === 0
+    }) as T[]
+  }
+
+  const languages = readList<CatalogLanguage>('languages', (entry, path) => {
+    const entryErrors: string[] = []
+    if (typeof entry.code !== 'string' || !entry.code) entryErrors.push(`${path} is missing a string "code"`)
+    if (!isOptionalString(entry.label)) entryErrors.push(`${path}.label must be a string`)
+    return entryErrors
+  })
+
+  const tts = readList<TtsProvider>('tts', (entry, path) => {
+    const entryErrors: string[] = []
+    if (typeof entry.name !== 'string' || !entry.name) entryErrors.push(`${path} is missing a string "name"`)
+    if (!Array.isArray(entry.voices)) {
+      entryErrors.push(`${path}.voices must be an array`)
+    } else {
+      entry.voices.forEach((voice, index) => {
+        const voicePath = `${path}.voices[${index}]`
+        if (!isPlainObject(voice)) {
+          entryErrors.push(`${voicePath} must be an object`)
+          return
+        }
+        if (typeof voice.id !== 'string' || !voice.id) entryErrors.push(`${voicePath} is missing a string "id"`)
+        if (typeof voice.language !== 'string' || !voice.language) entryErrors.push(`${voicePath} is missing a string "language"`)
+        if (!isOptionalString(voice.label)) entryErrors.push(`${voicePath}.label must be a string`)
+      })
+    }
+    return entryErrors
+  })
+
+  const stt = readList<SttProvider>('stt', (entry, path) => {
+    const entryErrors: string[] = []
+    if (typeof entry.name !== 'string' || !entry.name) entryErrors.push(`${path} is missing a string "name"`)
+    if (entry.languages !== undefined && !isStringArray(entry.languages)) entryErrors.push(`${path}.languages must be an array of strings`)
+    if (entry.models !== undefined) {
+      if (!Array.isArray(entry.models)) {
+        entryErrors.push(`${path}.models must be an array`)
+      } else {
+        entry.models.forEach((model, index) => {
+          const modelPath = `${path}.models[${index}]`
+          if (!isPlainObject(model)) {
+            entryErrors.push(`${modelPath} must be an object`)
+            return
+          }
+          if (typeof model.id !== 'string' || !model.id) entryErrors.push(`${modelPath} is missing a string "id"`)
+          if (!isOptionalString(model.label)) entryErrors.push(`${modelPath}.label must be a string`)
+          if (model.languages !== undefined && !isStringArray(model.languages)) {
+            entryErrors.push(`${modelPath}.languages must be an array of strings`)
+          }
+        })
+      }
+    }
+    return entryErrors
+  })
+
+  return { catalog: { languages, tts, stt }, errors }
+}
+
+/**
+ * Download the voice catalog. Falls back to the built-in catalog when no URL is configured or the request fails.
+ */
+export async function loadVoiceCatalog(url: string = getVoiceCatalogUrl()): Promise<VoiceCatalogResult> {
+  if (!url) {
+    return { catalog: DEFAULT_VOICE_CATALOG, source: 'default', errors: [] }
+  }
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } })
+    if (!response.ok) {
+      return { catalog: DEFAULT_VOICE_CATALOG, source: 'default', errors: [`Voice catalog request failed with status ${response.status}`] }
+    }
+    const { catalog, errors } = parseVoiceCatalog(await response.json())
+    return { catalog, source: 'remote', errors }
+  } catch (error) {
+    return { catalog: DEFAULT_VOICE_CATALOG, source: 'default', errors: [error instanceof Error ? error.message : 'Unknown error'] }
+  }
+}
+
+/**
+ * Whether a catalog language matches the flow language. "cs" matches "cs-CZ" and the other way round;
+ * an empty flow language matches everything.
+ */
+export const matchesLanguage = (catalogLanguage: string, language: string): boolean => {
+  if (!language) return true
+  const base = (code: string) => code.toLowerCase().split(/[-_]/)[0]
+  const a = catalogLanguage.toLowerCase()
+  const b = language.toLowerCase()
+  return a === b || base(a) === b || a === base(b)
+}
+
+const supportsLanguage = (languages: string[] | undefined, language: string): boolean => {
+  return !languages || languages.some((code) => matchesLanguage(code, language))
+}
+
+/**
+ * TTS providers with at least one voice for the language.
+ */
+export const getTtsProviders = (catalog: VoiceCatalog, language: string): TtsProvider[] => {
+  return catalog.tts.filter((provider) => provider.voices.some((voice) => matchesLanguage(voice.language, language)))
+}
+
+/**
+ * Voices for the language, limited to one provider when it is set.
+ */
+export const getTtsVoices = (catalog: VoiceCatalog, language: string, provider?: string): Array<TtsVoice & { provider: string }> => {
+  return catalog.tts
+    .filter((entry) => !provider || entry.name === provider)
+    .flatMap((entry) => entry.voices.map((voice) => ({ ...voice, provider: entry.name })))
+    .filter((voice) => matchesLanguage(voice.language, language))
+}
+
+export const getSttProviders = (catalog: VoiceCatalog, language: string): SttProvider[] => {
+  return catalog.stt.filter((provider) => supportsLanguage(provider.languages, language))
+}
+
+export const getSttModels = (catalog: VoiceCatalog, language: string, provider: string): SttModel[] => {
+  const entry = catalog.stt.find((candidate) => candidate.name === provider)
+  return (entry?.models ?? []).filter((model) => supportsLanguage(model.languages, language))
+}
@@ -0,0 +1,75 @@
+import { isPlainObject } from './typeGuards'
+
+/**
+ * Per-module overrides of the flow's voice settings (omnichannel_config.voice).
+ * Modules with `voiceOverrides: true` store them in the reserved param VOICE_OVERRIDES_PARAM,
+ * using the same nested shape as omnichannel_config.voice and containing only the overridden keys.
+ */
+
+export const VOICE_OVERRIDES_PARAM = 'voice_settings'
+
+export interface VoiceOverrideSetting {
+  // Path inside omnichannel_config.voice (and inside the override param)
+  path: string[]
+  label: string
+  kind: 'text' | 'milliseconds' | 'rate'
+}
+
+export const VOICE_OVERRIDE_SETTINGS: VoiceOverrideSetting[] = [
+  { path: ['tts', 'voice'], label: 'TTS voice', kind: 'text' },
+  { path: ['tts', 'prosody', 'rate'], label: 'TTS prosody rate', kind: 'rate' },
+  { path: ['initial_user_response_timeout'], label: 'Initial user response timeout', kind: 'milliseconds' },
+  { path: ['inactivity_timeout'], label: 'Inactivity timeout', kind: 'milliseconds' },
+]
+
+type Settings = Record<string, unknown>
+
+export const getSettingValue = (settings: unknown, path: string[]): unknown => {
+  let current: unknown = settings
+  for (const key of path) {
+    if (!isPlainObject(current)) return undefined
+    current = current[key]
+  }
+  return current
+}
+
+/**
+ * Set (or with `undefined`, remove) a nested value. Objects left empty by a removal are removed too.
+ */
+export const setSettingValue = (settings: unknown, path: string[], value: unknown): Settings => {
+  const base = isPlainObject(settings) ? settings : {}
+  const [key, ...rest] = path
+  const nextValue = rest.length > 0 ? setSettingValue(base[key], rest, value) : value
+  const next = { ...base }
+  if (nextValue === undefined || (isPlainObject(nextValue) && Object.keys(nextValue).length === 0)) {
+    delete next[key]
+  } else {
+    next[key] = nextValue
+  }
+  return next
+}
+
+export const hasOverride = (overrides: unknown, path: string[]): boolean => {
+  return getSettingValue(overrides, path) !== undefined
+}
+
+/**
+ * The value a module runs with: its override if set, otherwise the flow-level value.
+ */
+export const getEffectiveVoiceSetting = (
+  overrides: unknown,
+  flowVoice: unknown,
+  path: string[]
+): { value: unknown; source: 'override' | 'flow' | 'unset' } => {
+  const override = getSettingValue(overrides, path)
+  if (override !== undefined) return { value: override, source: 'override' }
+  const flowValue = getSettingValue(flowVoice, path)
+  if (flowValue !== undefined && flowValue !== '') return { value: flowValue, source: 'flow' }
+  return { value: undefined, source: 'unset' }
+}
+
+export const formatVoiceSetting = (setting: VoiceOverrideSetting, value: unknown): string => {
+  if (value === undefined || value === '') return 'not set'
+  if (setting.kind === 'milliseconds' && typeof value === 'number') return `${value} ms`
+  return String(value)
+}
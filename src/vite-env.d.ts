@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the module catalog API (modules are fetched from <url>/bots/<mchannels_bot_id>/modules)
+  readonly VITE_MODULE_CATALOG_URL?: string
+  // URL of the voice catalog (languages, TTS voices, STT models) - a JSON file or an endpoint
+  readonly VITE_VOICE_CATALOG_URL?: string
+  // Base URL of the bot API used to push/pull bot versions (the in-memory mock server is used when unset)
+  readonly VITE_BOT_API_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}